@@ -4,9 +4,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import LtiLaunch from "./pages/LtiLaunch";
+import Catalog from "./pages/Catalog";
+import Lecture from "./pages/Lecture";
+import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
+import { courseManifestQuery } from "./hooks/use-course-catalog";
 
 const queryClient = new QueryClient();
+// Start loading the course catalog before any page asks for it
+queryClient.prefetchQuery(courseManifestQuery());
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -16,6 +23,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/lti/launch" element={<LtiLaunch />} />
+          <Route path="/courses" element={<Catalog />} />
+          <Route path="/courses/:courseId/lectures/:lectureId" element={<Lecture />} />
+          <Route path="/dashboard" element={<Dashboard />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,171 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Clock, CheckCircle2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/hooks/use-toast';
+import { usePlayerProgress } from '@/hooks/use-player-progress';
+import { PlayerAdapter } from '@/lib/playerAdapter';
+import { YouTubeAdapter } from '@/lib/youtubeAdapter';
+import { VimeoAdapter } from '@/lib/vimeoAdapter';
+import { EmbedSource } from '@/lib/embedSource';
+import { CompletionRules } from '@/lib/completionRules';
+import { Chapter } from '@/lib/chapters';
+
+interface EmbeddedVideoPlayerProps {
+  source: EmbedSource;
+  /** Stable ID to save progress under; defaults to the provider and its video ID */
+  videoId?: string;
+  title?: string;
+  description?: string;
+  completionRules?: Partial<CompletionRules>;
+  chapters?: Chapter[];
+  onComplete?: () => void;
+  /** Position in seconds to open at instead of the saved resume point, e.g. from a deep link */
+  startTime?: number;
+  /** Start playing as soon as the player is ready, e.g. the next item of a playlist */
+  autoPlay?: boolean;
+  /** Called when playback reaches the end, with whether the completion rules are met */
+  onEnded?: (isComplete: boolean) => void;
+  /** Shown over the video, e.g. an "Up next" prompt */
+  overlay?: React.ReactNode;
+}
+
+/**
+ * Tracks a YouTube or Vimeo video through its player adapter. The
+ * provider's own controls drive playback, so only progress is shown here.
+ */
+const EmbeddedVideoPlayer: React.FC<EmbeddedVideoPlayerProps> = ({
+  source,
+  videoId,
+  title,
+  description,
+  completionRules,
+  chapters,
+  onComplete,
+  startTime,
+  autoPlay = false,
+  onEnded,
+  overlay
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const positionedRef = useRef(false);
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  const [adapter, setAdapter] = useState<PlayerAdapter | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Declared before the adapter is created, so on unmount the open segment
+  // is closed while the provider's player still exists
+  const {
+    progressPercentage,
+    lastPosition,
+    isComplete,
+    stopTracking,
+    tracker,
+    duration
+  } = usePlayerProgress(adapter, {
+    videoId: videoId ?? `${source.provider}:${source.id}`,
+    completionRules,
+    chapters,
+    onComplete: () => {
+      toast({
+        title: "Lecture Completed",
+        description: "You've met the completion requirements for this video.",
+      });
+      onComplete?.();
+    }
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // The provider replaces or fills the element it is given, so give it one React doesn't render
+    const element = document.createElement('div');
+    element.className = 'w-full h-full';
+    container.appendChild(element);
+
+    let isCurrent = true;
+    let created: PlayerAdapter | null = null;
+    const create = source.provider === 'youtube'
+      ? YouTubeAdapter.create(element, source.id)
+      : VimeoAdapter.create(element, source.id);
+    create
+      .then(embedAdapter => {
+        if (!isCurrent) {
+          embedAdapter.destroy();
+          return;
+        }
+        created = embedAdapter;
+        setAdapter(embedAdapter);
+      })
+      .catch(error => {
+        console.error('Error loading embedded player:', error);
+        if (isCurrent) setLoadError('The video player could not be loaded.');
+      });
+
+    return () => {
+      isCurrent = false;
+      created?.destroy();
+      setAdapter(null);
+      container.replaceChildren();
+    };
+  }, [source.provider, source.id]);
+
+  // Open at the deep-linked start time or the resume point, then autoplay
+  useEffect(() => {
+    if (!adapter || !tracker || duration <= 0 || positionedRef.current) return;
+    positionedRef.current = true;
+    const position = startTime !== undefined ? Math.min(Math.max(0, startTime), duration) : lastPosition;
+    if (position > 0) {
+      adapter.seek(position);
+    }
+    if (autoPlay) {
+      adapter.play().catch(error => {
+        // Browsers may block autoplay; the learner can still press play
+        console.error("Video autoplay error:", error);
+      });
+    }
+  }, [adapter, tracker, duration, startTime, lastPosition, autoPlay]);
+
+  useEffect(() => {
+    if (!adapter) return;
+    return adapter.on('ended', (event) => {
+      // The tracker may not have closed the final segment yet
+      stopTracking(event.currentTime);
+      onEndedRef.current?.(tracker ? tracker.isComplete() : false);
+    });
+  }, [adapter, tracker, stopTracking]);
+
+  return (
+    <div className="w-full rounded-lg overflow-hidden shadow-xl bg-card">
+      <div className="relative bg-black aspect-video">
+        <div ref={containerRef} className="absolute inset-0" />
+        {loadError && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/80 text-sm">
+            {loadError}
+          </div>
+        )}
+        {overlay}
+      </div>
+
+      <div className="p-4 space-y-2">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4" />
+          <span className="text-sm font-semibold">{progressPercentage.toFixed(1)}% watched</span>
+          {isComplete && (
+            <Badge className="bg-green-600 hover:bg-green-600 text-white">
+              <CheckCircle2 className="w-3 h-3 mr-1" />
+              Completed
+            </Badge>
+          )}
+        </div>
+        <Progress value={progressPercentage} className="h-1" />
+        {title && <h3 className="text-xl font-semibold pt-2">{title}</h3>}
+        {description && <p className="text-muted-foreground">{description}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default EmbeddedVideoPlayer;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { ThemeToggle } from '@/components/ThemeToggle';
 
 const Navbar = () => {
@@ -7,10 +8,16 @@ const Navbar = () => {
       <div className="container flex h-14 items-center">
         <div className="mr-4 flex">
           <h1 className="text-xl font-bold">
-            Smart Video Learning Progress Tracker
+            <Link to="/">Smart Video Learning Progress Tracker</Link>
           </h1>
         </div>
-        <div className="flex flex-1 items-center justify-between space-x-2 md:justify-end">
+        <div className="flex flex-1 items-center justify-between space-x-4 md:justify-end">
+          <Link to="/courses" className="text-sm font-medium text-muted-foreground hover:text-foreground">
+            Courses
+          </Link>
+          <Link to="/dashboard" className="text-sm font-medium text-muted-foreground hover:text-foreground">
+            Dashboard
+          </Link>
           <ThemeToggle />
         </div>
       </div>
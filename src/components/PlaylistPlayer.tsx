@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ListVideo, PlayCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import VideoPlayer from '@/components/VideoPlayer';
+import EmbeddedVideoPlayer from '@/components/EmbeddedVideoPlayer';
+import { CompletionRules } from '@/lib/completionRules';
+import { Chapter } from '@/lib/chapters';
+import { parseEmbedSource } from '@/lib/embedSource';
+
+export interface PlaylistItem {
+  /** Progress is saved per item under this ID, so items never share a tracker */
+  videoId: string;
+  /** A media file or stream, or a YouTube or Vimeo URL to play in the provider's player */
+  videoUrl: string;
+  title: string;
+  description?: string;
+  sourceType?: string;
+  chapters?: Chapter[];
+  chaptersTrack?: string;
+  /** Position in seconds to open the item at instead of its resume point */
+  startTime?: number;
+}
+
+interface PlaylistPlayerProps {
+  items: PlaylistItem[];
+  /** The item being played, for a controlled playlist */
+  index?: number;
+  /** The item to start with, for an uncontrolled playlist */
+  defaultIndex?: number;
+  /** Called when the playlist moves to another item */
+  onIndexChange?: (index: number) => void;
+  /** Move on to the next item when one ends. Defaults to true. */
+  autoAdvance?: boolean;
+  /** Only move on once the ended item's completion rules are met. Defaults to false. */
+  requireCompletion?: boolean;
+  /** How long the "Up next" prompt waits before moving on, in seconds */
+  countdownSeconds?: number;
+  completionRules?: Partial<CompletionRules>;
+}
+
+const PlaylistPlayer: React.FC<PlaylistPlayerProps> = ({
+  items,
+  index: indexProp,
+  defaultIndex = 0,
+  onIndexChange,
+  autoAdvance = true,
+  requireCompletion = false,
+  countdownSeconds = 5,
+  completionRules
+}) => {
+  const [uncontrolledIndex, setUncontrolledIndex] = useState(defaultIndex);
+  const index = Math.min(Math.max(0, indexProp ?? uncontrolledIndex), items.length - 1);
+  const item = items[index];
+  const nextItem = items[index + 1] ?? null;
+  // Seconds left before the next item starts, or null when not counting down
+  const [countdown, setCountdown] = useState<number | null>(null);
+  // The item reached by advancing, which starts playing by itself
+  const [autoPlayVideoId, setAutoPlayVideoId] = useState<string | null>(null);
+
+  const goTo = (newIndex: number, autoPlay: boolean) => {
+    setCountdown(null);
+    setAutoPlayVideoId(autoPlay ? items[newIndex].videoId : null);
+    setUncontrolledIndex(newIndex);
+    onIndexChange?.(newIndex);
+  };
+  const advanceRef = useRef(() => {});
+  advanceRef.current = () => {
+    if (nextItem) goTo(index + 1, true);
+  };
+
+  // Stop counting down when the playlist moves on some other way
+  useEffect(() => {
+    setCountdown(null);
+  }, [item?.videoId]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown <= 0) {
+      advanceRef.current();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  const handleEnded = (isComplete: boolean) => {
+    if (!autoAdvance || !nextItem) return;
+    if (requireCompletion && !isComplete) {
+      toast({
+        title: "Next Lecture Locked",
+        description: "Meet this lecture's completion requirements to continue to the next one.",
+      });
+      return;
+    }
+    setCountdown(countdownSeconds);
+  };
+
+  if (!item) return null;
+  const embedSource = parseEmbedSource(item.videoUrl);
+
+  const upNextOverlay = countdown !== null && nextItem && (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70">
+      <div className="text-center text-white space-y-3 p-4">
+        <p className="text-sm uppercase tracking-wide text-white/70">Up next in {countdown}s</p>
+        <p className="text-xl font-semibold">{nextItem.title}</p>
+        <div className="flex justify-center gap-2">
+          <Button onClick={() => goTo(index + 1, true)}>
+            <PlayCircle className="w-4 h-4 mr-1" />
+            Play now
+          </Button>
+          <Button variant="outline" className="text-foreground" onClick={() => setCountdown(null)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* A fresh player per item keeps each item's tracker and progress separate */}
+      {embedSource ? (
+        <EmbeddedVideoPlayer
+          key={item.videoId}
+          source={embedSource}
+          videoId={item.videoId}
+          title={item.title}
+          description={item.description}
+          chapters={item.chapters}
+          completionRules={completionRules}
+          startTime={item.startTime}
+          autoPlay={autoPlayVideoId === item.videoId}
+          onEnded={handleEnded}
+          overlay={upNextOverlay}
+        />
+      ) : (
+        <VideoPlayer
+          key={item.videoId}
+          videoUrl={item.videoUrl}
+          videoId={item.videoId}
+          sourceType={item.sourceType}
+          title={item.title}
+          description={item.description}
+          chapters={item.chapters}
+          chaptersTrack={item.chaptersTrack}
+          completionRules={completionRules}
+          startTime={item.startTime}
+          autoPlay={autoPlayVideoId === item.videoId}
+          onEnded={handleEnded}
+          overlay={upNextOverlay}
+        />
+      )}
+
+      {items.length > 1 && (
+        <div className="rounded-lg bg-card shadow-xl p-4">
+          <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+            <ListVideo className="w-4 h-4" />
+            Playlist ({index + 1} of {items.length})
+          </h4>
+          <div className="space-y-1">
+            {items.map((playlistItem, itemIndex) => (
+              <button
+                key={playlistItem.videoId}
+                type="button"
+                onClick={() => goTo(itemIndex, false)}
+                className={`w-full text-left text-sm p-2 rounded-md ${itemIndex === index ? 'bg-muted font-medium' : 'hover:bg-muted/70'}`}
+              >
+                {itemIndex + 1}. {playlistItem.title}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistPlayer;
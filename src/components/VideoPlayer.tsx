@@ -1,11 +1,39 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Play, Pause, RotateCcw, Clock, BarChart2, Upload, Download } from 'lucide-react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
+import { Play, Pause, RotateCcw, Clock, BarChart2, Upload, Download, Gauge, AlertTriangle, CheckCircle2, Captions, Settings2, Cloud, CloudOff, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Slider } from '@/components/ui/slider';
 import { toast } from '@/hooks/use-toast';
-import { useVideoProgress } from '@/hooks/use-video-progress';
-import { WatchedInterval } from '@/lib/videoProgressTracker';
+import { useVideoProgress, useTrackerEvent } from '@/hooks/use-video-progress';
+import { useAttentionMonitor } from '@/hooks/use-attention-monitor';
+import { useVttChapters } from '@/hooks/use-vtt-chapters';
+import { useVideoId } from '@/hooks/use-video-id';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { AUTO_QUALITY, useAdaptiveStream } from '@/hooks/use-adaptive-stream';
+import { SOURCE_MIME_TYPES, detectSourceType } from '@/lib/streamSource';
+import { NativeVideoAdapter, connectPlayerToTracker } from '@/lib/playerAdapter';
+import { VideoProgressTracker, WatchedInterval } from '@/lib/videoProgressTracker';
+import { AttentionPolicy, DEFAULT_ATTENTION_POLICY } from '@/lib/attentionMonitor';
+import { summarizeHeatmap } from '@/lib/viewHeatmap';
+import { CompletionRules } from '@/lib/completionRules';
+import { Chapter, findChapterAt } from '@/lib/chapters';
+import { VideoIdStrategy } from '@/lib/videoIdentity';
+import { DurationReconciliation } from '@/lib/durationReconciliation';
+import { OfflineSyncEngine, SyncStatus } from '@/lib/offlineSync';
+import { XapiVideoEmitter } from '@/lib/xapi';
+import { ScormProgressBridge } from '@/lib/scorm';
+import { Cmi5Session } from '@/lib/cmi5';
+import { LtiGradePassback } from '@/lib/lti';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Dialog,
   DialogContent,
@@ -14,6 +42,15 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Tooltip,
   TooltipContent,
@@ -21,50 +58,380 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 3, 4];
+const HEAT_STRIP_SEGMENTS = 120;
+const CAPTIONS_OFF = 'off';
+
+/**
+ * Short label for the server sync indicator
+ */
+function describeSyncStatus(status: SyncStatus): string {
+  const pending = status.pendingCount > 0 ? ` (${status.pendingCount} pending)` : '';
+  switch (status.state) {
+    case 'syncing':
+      return 'Syncing…';
+    case 'offline':
+      return `Offline${pending}`;
+    case 'error':
+      return `Sync failed, retrying${pending}`;
+    default:
+      return 'Synced';
+  }
+}
+
+export interface CaptionTrack {
+  src: string;
+  srclang: string;
+  label: string;
+  kind?: 'captions' | 'subtitles';
+  default?: boolean;
+}
+
 interface VideoPlayerProps {
   videoUrl: string;
+  /** Stable ID to save progress under; derived from the URL by `videoIdStrategy` when omitted */
+  videoId?: string;
+  /** How to derive the video ID when none is supplied; defaults to a hash of the URL. Should be stable across renders. */
+  videoIdStrategy?: VideoIdStrategy;
+  /** MIME type or source type ('mp4', 'hls', 'dash'); detected from the URL when omitted */
+  sourceType?: string;
   title?: string;
   description?: string;
+  attentionPolicy?: Partial<AttentionPolicy>;
+  completionRules?: Partial<CompletionRules>;
+  onComplete?: () => void;
+  /** How saved progress is carried over if the video was re-encoded with a different length */
+  durationReconciliation?: Partial<DurationReconciliation>;
+  /** Syncs progress to a server, queueing it while offline. Should be stable across renders. */
+  syncEngine?: OfflineSyncEngine;
+  /** Reports play, pause, seek and completion to an LRS as xAPI video statements */
+  xapiEmitter?: XapiVideoEmitter;
+  /** Reports progress to the LMS when packaged as SCORM, and resumes from it. Should be stable across renders. */
+  scormBridge?: ScormProgressBridge;
+  /** Reports Completed to a cmi5 LMS once the completion rules are met, and Terminated on exit */
+  cmi5Session?: Cmi5Session;
+  /** Posts progress to an LTI platform's gradebook. Should be stable across renders. */
+  gradePassback?: LtiGradePassback;
+  /** Receives the tracker once it exists (and null when it goes away), so integrations can subscribe to its events */
+  onTrackerChange?: (tracker: VideoProgressTracker | null) => void;
+  chapters?: Chapter[];
+  captionTracks?: CaptionTrack[];
+  /** URL of a WebVTT chapters track; when it loads it replaces `chapters` */
+  chaptersTrack?: string;
+  /** Cue identifiers (or titles) of required chapters in the chapters track */
+  requiredChapterIds?: string[];
+  /** Position in seconds to open at instead of the saved resume point, e.g. from a deep link */
+  startTime?: number;
+  /** Start playing as soon as the video is loaded, e.g. the next item of a playlist */
+  autoPlay?: boolean;
+  /** Called when playback reaches the end, with whether the completion rules are met */
+  onEnded?: (isComplete: boolean) => void;
+  /** Shown over the video, e.g. an "Up next" prompt */
+  overlay?: React.ReactNode;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  videoUrl,
+  videoId: videoIdProp,
+  videoIdStrategy,
+  sourceType: sourceTypeProp,
+  title,
+  description,
+  attentionPolicy,
+  completionRules,
+  onComplete,
+  durationReconciliation,
+  syncEngine,
+  xapiEmitter,
+  scormBridge,
+  cmi5Session,
+  gradePassback,
+  onTrackerChange,
+  chapters: chaptersProp,
+  captionTracks = [],
+  chaptersTrack,
+  requiredChapterIds,
+  startTime,
+  autoPlay = false,
+  onEnded,
+  overlay
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const progressBarRef = useRef<HTMLDivElement>(null);
+  const startTimeAppliedRef = useRef(false);
+  const autoPlayedRef = useRef(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [isSeeking, setIsSeeking] = useState(false);
+  const [adapter, setAdapter] = useState<NativeVideoAdapter | null>(null);
   const [hoverTime, setHoverTime] = useState<number | null>(null);
   const [hoverPosition, setHoverPosition] = useState<{ x: number, y: number } | null>(null);
-  const videoId = videoUrl.split('/').pop() || '';
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const [showAttentionPrompt, setShowAttentionPrompt] = useState(false);
+  const [activeCaption, setActiveCaption] = useState(() => {
+    const defaultTrack = captionTracks.findIndex(track => track.default);
+    return defaultTrack >= 0 ? String(defaultTrack) : CAPTIONS_OFF;
+  });
+  const { chapters: vttChapters } = useVttChapters(chaptersTrack, requiredChapterIds);
+  const chapters = vttChapters ?? chaptersProp;
+  const sourceType = detectSourceType(videoUrl, sourceTypeProp);
+  const {
+    usesMediaSource,
+    qualityLevels,
+    currentQuality,
+    setQuality
+  } = useAdaptiveStream(videoRef, videoUrl, sourceType);
+  const videoId = useVideoId({ videoId: videoIdProp, videoUrl, duration, strategy: videoIdStrategy });
   
   // Use our custom hook for tracking progress
   const {
     progressPercentage,
     lastPosition,
     watchedIntervals,
+    playbackRatePolicy,
+    suspiciousSegments,
+    heatmap,
+    isComplete,
+    completedAt,
+    completionStatus,
+    chapterProgress,
     startTracking,
     stopTracking,
     handleSeek: handleProgressSeek,
+    setPlaybackRate,
+    suspendCrediting,
+    resumeCrediting,
     reset: resetProgress,
     exportProgressData,
-    importProgressData
+    importProgressData,
+    mergeRemoteProgress,
+    tracker
   } = useVideoProgress({
     videoId,
     duration,
     onProgressUpdate: (data) => {
       // Optional callback when progress is updated
       updateWatchedSegmentsVisual(data.intervals);
+    },
+    completionRules,
+    chapters,
+    onComplete: () => {
+      toast({
+        title: "Lecture Completed",
+        description: "You've met the completion requirements for this video.",
+      });
+      onComplete?.();
+    },
+    durationReconciliation,
+    serverSync: syncEngine,
+    onDurationMismatch: (event) => {
+      toast({
+        title: "This Video Was Updated",
+        description: event.strategy === 'reset'
+          ? "The video's length changed since you last watched it, so your progress has been reset."
+          : `The video's length changed since you last watched it. Your progress was adjusted from ${Math.round(event.previousProgress)}% to ${Math.round(event.newProgress)}%.`,
+      });
     }
   });
 
-  // Resume video at last position when duration is loaded
+  const syncStatus = useSyncStatus(syncEngine);
+
+  // LMS and gradebook bridges follow the tracker's progress
+  useTrackerEvent(tracker, 'progress', (data) => {
+    scormBridge?.handleProgressUpdate(data);
+    cmi5Session?.handleProgressUpdate(data);
+    gradePassback?.handleProgressUpdate(data);
+  });
+
+  // Playback and completion become xAPI statements
+  useTrackerEvent(tracker, 'play', (event) => xapiEmitter?.handleTrackingEvent(event));
+  useTrackerEvent(tracker, 'pause', (event) => xapiEmitter?.handleTrackingEvent(event));
+  useTrackerEvent(tracker, 'seek', (event) => xapiEmitter?.handleTrackingEvent(event));
+  useTrackerEvent(tracker, 'complete', (data) => {
+    xapiEmitter?.handleTrackingEvent({ type: 'complete', position: data.lastPosition, progress: data.totalProgress });
+  });
+
+  useEffect(() => {
+    onTrackerChange?.(tracker);
+  }, [tracker, onTrackerChange]);
+
+  useEffect(() => {
+    const nativeAdapter = new NativeVideoAdapter(videoRef.current);
+    setAdapter(nativeAdapter);
+    return () => nativeAdapter.destroy();
+  }, []);
+
+  // The element's play, pause, stall, seek and rate events drive the tracker
+  useEffect(() => {
+    if (!adapter) return;
+    return connectPlayerToTracker(adapter, {
+      startTracking,
+      stopTracking,
+      handleSeek: handleProgressSeek,
+      setPlaybackRate,
+      onDurationChange: setDuration,
+      onTimeUpdate: setCurrentTime
+    });
+  }, [adapter, startTracking, stopTracking, handleProgressSeek, setPlaybackRate]);
+
+  // Credit the open segment when the player goes away, e.g. on moving to
+  // another playlist item or route. The element's pause event comes too
+  // late to be handled, and layout cleanups run before the tracker is destroyed.
+  useLayoutEffect(() => {
+    const video = videoRef.current;
+    return () => {
+      if (video) stopTracking(video.currentTime);
+    };
+  }, [stopTracking]);
+
+  // Stop crediting while the learner is away, as configured by the attention policy
+  const attentionAction = attentionPolicy?.action ?? DEFAULT_ATTENTION_POLICY.action;
+  const { reason: inattentionReason } = useAttentionMonitor({
+    enabled: isPlaying,
+    policy: attentionPolicy,
+    onInattentive: () => {
+      const time = videoRef.current ? videoRef.current.currentTime : currentTime;
+      if (attentionAction === 'pause') {
+        videoRef.current?.pause();
+        return;
+      }
+      suspendCrediting(time);
+      if (attentionAction === 'prompt') {
+        setShowAttentionPrompt(true);
+      }
+    },
+    onAttentive: () => {
+      // A prompt stays up until the learner confirms they're still watching
+      if (attentionAction === 'continue' && videoRef.current) {
+        resumeCrediting(videoRef.current.currentTime);
+      }
+    }
+  });
+
+  // Start the xAPI session once the length is known, and end it when the player goes away
+  useEffect(() => {
+    if (xapiEmitter && duration > 0) {
+      xapiEmitter.initialize(duration);
+    }
+  }, [xapiEmitter, duration]);
+
+  useEffect(() => {
+    if (!xapiEmitter) return;
+    const video = videoRef.current;
+    return () => {
+      xapiEmitter.terminate(video ? video.currentTime : 0);
+    };
+  }, [xapiEmitter]);
+
+  // Resume from progress the LMS saved on an earlier launch
+  useEffect(() => {
+    if (!scormBridge || !videoId) return;
+    const saved = scormBridge.restore(videoId);
+    if (saved) {
+      mergeRemoteProgress(saved);
+    }
+  }, [scormBridge, videoId, mergeRemoteProgress]);
+
+  // The LMS only keeps what is committed before the SCO is unloaded
+  useEffect(() => {
+    if (!scormBridge) return;
+    const finish = () => scormBridge.finish();
+    window.addEventListener('pagehide', finish);
+    return () => {
+      window.removeEventListener('pagehide', finish);
+      finish();
+    };
+  }, [scormBridge]);
+
+  // End the cmi5 session when the learner leaves
+  useEffect(() => {
+    if (!cmi5Session) return;
+    const terminate = () => {
+      cmi5Session.terminate();
+    };
+    window.addEventListener('pagehide', terminate);
+    return () => {
+      window.removeEventListener('pagehide', terminate);
+      terminate();
+    };
+  }, [cmi5Session]);
+
+  // Send any throttled score before the learner leaves
+  useEffect(() => {
+    if (!gradePassback) return;
+    // A plain fetch is dropped while the page unloads
+    const flushOnPageHide = () => {
+      gradePassback.flush({ keepalive: true });
+    };
+    window.addEventListener('pagehide', flushOnPageHide);
+    return () => {
+      window.removeEventListener('pagehide', flushOnPageHide);
+      gradePassback.flush();
+    };
+  }, [gradePassback]);
+
+  // Pick up a segment already in progress once the video ID has resolved
+  useEffect(() => {
+    if (videoId && videoRef.current && !videoRef.current.paused) {
+      startTracking(videoRef.current.currentTime);
+    }
+  }, [videoId, startTracking]);
+
+  const handleAttentionConfirm = () => {
+    setShowAttentionPrompt(false);
+    if (videoRef.current) {
+      resumeCrediting(videoRef.current.currentTime);
+    }
+  };
+
+  // Build the rewatch heat strip as a single gradient so long videos stay cheap to draw
+  const heatStripBackground = useMemo(() => {
+    const summary = summarizeHeatmap(heatmap, duration, HEAT_STRIP_SEGMENTS);
+    const maxViews = Math.max(0, ...summary);
+    if (maxViews <= 0) return null;
+
+    const stops = summary.map((views, index) => {
+      const alpha = (views / maxViews).toFixed(2);
+      const start = (index / summary.length) * 100;
+      const end = ((index + 1) / summary.length) * 100;
+      return `rgba(249, 115, 22, ${alpha}) ${start}% ${end}%`;
+    });
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+  }, [heatmap, duration]);
+
+  const getViewCount = (time: number): number => {
+    const bucket = Math.floor(time / heatmap.bucketSize);
+    return heatmap.counts[bucket] || 0;
+  };
+
+  // Resume video at last position when duration is loaded. Positions synced
+  // from another tab move a paused video but never yank a playing one. A
+  // deep-linked start time is applied once, in place of the first resume.
   useEffect(() => {
-    if (videoRef.current && duration > 0 && lastPosition > 0) {
+    if (!videoRef.current || duration <= 0) return;
+    if (startTime !== undefined && !startTimeAppliedRef.current) {
+      startTimeAppliedRef.current = true;
+      const position = Math.min(Math.max(0, startTime), duration);
+      videoRef.current.currentTime = position;
+      setCurrentTime(position);
+      return;
+    }
+    if (videoRef.current.paused && lastPosition > 0) {
       videoRef.current.currentTime = lastPosition;
       setCurrentTime(lastPosition);
     }
-  }, [duration, lastPosition]);
+  }, [duration, lastPosition, startTime]);
+
+  // Autoplay once the video has been positioned at its resume point
+  useEffect(() => {
+    if (!autoPlay || autoPlayedRef.current || !videoRef.current || duration <= 0) return;
+    autoPlayedRef.current = true;
+    videoRef.current.play()
+      .catch(error => {
+        // Browsers may block autoplay; the learner can still press play
+        console.error("Video autoplay error:", error);
+      });
+  }, [autoPlay, duration]);
 
   // Update the visual representation of watched segments
   useEffect(() => {
@@ -75,7 +442,6 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
     if (videoRef.current) {
       if (isPlaying) {
         videoRef.current.pause();
-        stopTracking(currentTime);
       } else {
         videoRef.current.play()
           .catch(error => {
@@ -86,55 +452,50 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
             });
             console.error("Video playback error:", error);
           });
-        startTracking(currentTime);
       }
-      setIsPlaying(!isPlaying);
     }
   };
 
-  const handleTimeUpdate = () => {
-    if (videoRef.current && !isSeeking) {
-      const time = videoRef.current.currentTime;
-      setCurrentTime(time);
-      
-      // Check for seeking (jumping around)
-      if (isPlaying && Math.abs(time - currentTime) > 1) {
-        // User seeked, stop current tracking and start new
-        stopTracking(currentTime);
-        startTracking(time);
-      }
+  const handleRateChange = () => {
+    if (videoRef.current) {
+      setPlaybackRateState(videoRef.current.playbackRate);
     }
   };
 
-  const handleLoadedMetadata = () => {
+  const handlePlaybackRateSelect = (value: string) => {
     if (videoRef.current) {
-      setDuration(videoRef.current.duration);
+      videoRef.current.playbackRate = Number(value);
     }
   };
 
+  // Show the selected caption track and hide the rest
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const captionTextTracks = Array.from(video.textTracks).filter(
+      track => track.kind === 'captions' || track.kind === 'subtitles'
+    );
+    captionTextTracks.forEach((track, index) => {
+      track.mode = String(index) === activeCaption ? 'showing' : 'disabled';
+    });
+  }, [activeCaption, captionTracks]);
+
   const handleVideoEnded = () => {
-    stopTracking(currentTime);
     setIsPlaying(false);
+    if (videoRef.current) {
+      // The adapter closes the segment too, but maybe not before we ask the tracker
+      stopTracking(videoRef.current.currentTime);
+    }
+    // Ask the tracker, since state won't reflect a segment closed just now
+    onEnded?.(tracker ? tracker.isComplete() : isComplete);
   };
 
+  // The element reports the seek, and the adapter passes it to the tracker
   const handleSeek = (newValue: number[]) => {
     if (videoRef.current) {
-      setIsSeeking(true);
-      
       const seekTime = (newValue[0] / 100) * duration;
       videoRef.current.currentTime = seekTime;
       setCurrentTime(seekTime);
-      
-      // Use our hook's handleSeek method
-      handleProgressSeek(seekTime);
-      
-      // Reset seeking state after a short delay
-      setTimeout(() => {
-        setIsSeeking(false);
-        if (isPlaying) {
-          startTracking(seekTime);
-        }
-      }, 100);
     }
   };
 
@@ -177,6 +538,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
     setHoverPosition(null);
   };
 
+  const hoverChapter = hoverTime !== null && chapters ? findChapterAt(chapters, hoverTime) : undefined;
+
   // Check if a time position is within watched intervals
   const isTimeWatched = (time: number): boolean => {
     return watchedIntervals.some(interval => time >= interval.start && time <= interval.end);
@@ -214,7 +577,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
     const dataStr = exportProgressData();
     const dataUri = `data:application/json;charset=utf-8,${encodeURIComponent(dataStr)}`;
     
-    const exportFileDefaultName = `video-progress-${videoId}.json`;
+    const exportFileDefaultName = `video-progress-${videoId ?? 'video'}.json`;
     
     const linkElement = document.createElement('a');
     linkElement.setAttribute('href', dataUri);
@@ -271,16 +634,28 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
         <video
           ref={videoRef}
           className="w-full aspect-video"
-          onTimeUpdate={handleTimeUpdate}
-          onLoadedMetadata={handleLoadedMetadata}
-          onPlay={() => startTracking(currentTime)}
-          onPause={() => stopTracking(currentTime)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
           onEnded={handleVideoEnded}
+          onRateChange={handleRateChange}
+          crossOrigin={captionTracks.length > 0 ? 'anonymous' : undefined}
         >
-          <source src={videoUrl} type="video/mp4" />
+          {!usesMediaSource && <source src={videoUrl} type={SOURCE_MIME_TYPES[sourceType]} />}
+          {captionTracks.map((track, index) => (
+            <track
+              key={`${track.srclang}-${index}`}
+              kind={track.kind || 'subtitles'}
+              src={track.src}
+              srcLang={track.srclang}
+              label={track.label}
+              default={track.default}
+            />
+          ))}
           Your browser does not support the video tag.
         </video>
         
+        {overlay}
+        
         {/* Controls Overlay */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
           <div className="flex flex-col gap-2">
@@ -304,6 +679,25 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
                   />
                   {/* Watched segments will be added here dynamically */}
                   
+                  {/* Chapter ticks */}
+                  {duration > 0 && chapterProgress
+                    .filter(chapter => chapter.start > 0 && chapter.start < duration)
+                    .map(chapter => (
+                      <div
+                        key={chapter.id}
+                        className={`absolute top-0 h-full w-0.5 pointer-events-none ${chapter.required ? 'bg-amber-400' : 'bg-white/80'}`}
+                        style={{ left: `${(chapter.start / duration) * 100}%` }}
+                      />
+                    ))}
+                  
+                  {/* Rewatch heat strip */}
+                  {heatStripBackground && (
+                    <div
+                      className="absolute left-0 right-0 -top-2 h-1 rounded-full pointer-events-none"
+                      style={{ background: heatStripBackground }}
+                    />
+                  )}
+                  
                   {/* Hover tooltip */}
                   {hoverTime !== null && hoverPosition !== null && (
                     <div 
@@ -314,9 +708,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
                       }}
                     >
                       <div className="flex flex-col items-center">
+                        {hoverChapter && (
+                          <span className="font-medium whitespace-nowrap">{hoverChapter.title}</span>
+                        )}
                         <span>{formatTime(hoverTime)}</span>
                         <span className="text-[10px]">
-                          {isTimeWatched(hoverTime) ? "Watched" : "Not watched"}
+                          {isTimeWatched(hoverTime)
+                            ? `Watched ${Math.max(1, Math.round(getViewCount(hoverTime)))}×`
+                            : "Not watched"}
                         </span>
                       </div>
                     </div>
@@ -341,10 +740,122 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
                 <span className="text-sm font-semibold">
                   {formatProgress(progressPercentage)} watched
                 </span>
+                {isComplete && (
+                  <Badge className="bg-green-600 hover:bg-green-600 text-white">
+                    <CheckCircle2 className="w-3 h-3 mr-1" />
+                    Completed
+                  </Badge>
+                )}
+                {inattentionReason && attentionAction !== 'pause' && (
+                  <span className="text-xs text-amber-300">(not counting while away)</span>
+                )}
+                {syncStatus && (
+                  <span
+                    className={`flex items-center gap-1 text-xs ${syncStatus.state === 'idle' || syncStatus.state === 'syncing' ? 'text-white/70' : 'text-amber-300'}`}
+                    title={syncStatus.lastError ?? (syncStatus.lastSyncedAt ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleTimeString()}` : undefined)}
+                  >
+                    {syncStatus.state === 'syncing' && <RefreshCw className="w-3 h-3 animate-spin" />}
+                    {syncStatus.state === 'idle' && <Cloud className="w-3 h-3" />}
+                    {(syncStatus.state === 'offline' || syncStatus.state === 'error') && <CloudOff className="w-3 h-3" />}
+                    {describeSyncStatus(syncStatus)}
+                  </span>
+                )}
               </div>
               
               <div className="flex-1" />
               
+              {qualityLevels.length > 1 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-white/30 text-black bg-white hover:bg-white/90 [&:hover>*]:text-black [&>*]:text-black [&:hover]:text-black"
+                    >
+                      <Settings2 className="w-4 h-4 mr-2" />
+                      {currentQuality === AUTO_QUALITY
+                        ? 'Auto'
+                        : qualityLevels.find(level => level.index === currentQuality)?.height + 'p'}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Quality</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuRadioGroup
+                      value={String(currentQuality)}
+                      onValueChange={(value) => setQuality(Number(value))}
+                    >
+                      <DropdownMenuRadioItem value={String(AUTO_QUALITY)}>Auto</DropdownMenuRadioItem>
+                      {[...qualityLevels]
+                        .sort((a, b) => b.bitrate - a.bitrate)
+                        .map(level => (
+                          <DropdownMenuRadioItem key={level.index} value={String(level.index)}>
+                            {level.label}
+                          </DropdownMenuRadioItem>
+                        ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              
+              {captionTracks.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-white/30 text-black bg-white hover:bg-white/90 [&:hover>*]:text-black [&>*]:text-black [&:hover]:text-black"
+                    >
+                      <Captions className="w-4 h-4 mr-2" />
+                      {activeCaption === CAPTIONS_OFF ? 'CC' : captionTracks[Number(activeCaption)].srclang.toUpperCase()}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Captions</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuRadioGroup value={activeCaption} onValueChange={setActiveCaption}>
+                      <DropdownMenuRadioItem value={CAPTIONS_OFF}>Off</DropdownMenuRadioItem>
+                      {captionTracks.map((track, index) => (
+                        <DropdownMenuRadioItem key={`${track.srclang}-${index}`} value={String(index)}>
+                          {track.label}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-white/30 text-black bg-white hover:bg-white/90 [&:hover>*]:text-black [&>*]:text-black [&:hover]:text-black"
+                  >
+                    <Gauge className="w-4 h-4 mr-2" />
+                    {playbackRate}x
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Playback Speed</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuRadioGroup
+                    value={String(playbackRate)}
+                    onValueChange={handlePlaybackRateSelect}
+                  >
+                    {PLAYBACK_RATES.map(rate => (
+                      <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                        {rate}x{rate > playbackRatePolicy.maxFullCreditRate && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {playbackRatePolicy.overRateCredit === 'none' ? 'no credit' : 'reduced credit'}
+                          </span>
+                        )}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              
               <Dialog>
                 <DialogTrigger asChild>
                   <Button
@@ -373,6 +884,47 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
                         </div>
                       ))}
                     </div>
+                    {chapterProgress.length > 0 && (
+                      <div className="mt-4">
+                        <h4 className="text-sm font-medium mb-2">Chapters</h4>
+                        <div className="max-h-[200px] overflow-y-auto space-y-2">
+                          {chapterProgress.map(chapter => (
+                            <div key={chapter.id} className="text-sm bg-muted p-2 rounded-md space-y-1">
+                              <div className="flex justify-between gap-2">
+                                <span className="flex items-center gap-1">
+                                  {chapter.isComplete && <CheckCircle2 className="w-3 h-3 text-green-600" />}
+                                  {chapter.title}
+                                  {chapter.required && (
+                                    <Badge variant="outline" className="ml-1 px-1 py-0 text-[10px]">Required</Badge>
+                                  )}
+                                </span>
+                                <span>{formatProgress(chapter.progressPercent)}</span>
+                              </div>
+                              <Progress value={chapter.progressPercent} className="h-1" />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {suspiciousSegments.length > 0 && (
+                      <div className="mt-4">
+                        <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+                          <AlertTriangle className="w-4 h-4 text-amber-500" />
+                          Not Credited ({suspiciousSegments.length})
+                        </h4>
+                        <p className="text-xs text-muted-foreground mb-2">
+                          These segments advanced faster than real time allows and were not counted.
+                        </p>
+                        <div className="max-h-[120px] overflow-y-auto space-y-2">
+                          {suspiciousSegments.map((segment, index) => (
+                            <div key={index} className="text-sm bg-amber-500/10 p-2 rounded-md flex justify-between">
+                              <span>{formatTime(segment.start)} - {formatTime(segment.end)}</span>
+                              <span>in {segment.wallClockSeconds.toFixed(1)}s at {segment.playbackRate}x</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     <div className="mt-4 space-y-2">
                       <div className="flex justify-between">
                         <span className="text-sm">Total Unique Time:</span>
@@ -390,6 +942,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
                         <span className="text-sm">Progress:</span>
                         <span className="text-sm font-medium">{formatProgress(progressPercentage)}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Completion:</span>
+                        <span className="text-sm font-medium">
+                          {completedAt
+                            ? `Completed ${new Date(completedAt).toLocaleDateString()}`
+                            : completionStatus.coverageMet
+                              ? "Required parts not yet watched"
+                              : "In progress"}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Speed Credit:</span>
+                        <span className="text-sm font-medium">
+                          Full up to {playbackRatePolicy.maxFullCreditRate}x,{' '}
+                          {playbackRatePolicy.overRateCredit === 'none' ? 'none' : 'scaled'} above
+                        </span>
+                      </div>
                     </div>
                     <div className="flex gap-2 mt-4">
                       <Button className="flex-1" onClick={handleExportProgress}>
@@ -419,6 +988,21 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, title, description
         </div>
       </div>
       
+      <AlertDialog open={showAttentionPrompt}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you still watching?</AlertDialogTitle>
+            <AlertDialogDescription>
+              We paused progress tracking because you seemed to be away.
+              Playback since then won't count toward your progress until you continue.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={handleAttentionConfirm}>I'm still watching</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       {/* Video Info */}
       {(title || description) && (
         <div className="p-4">
@@ -0,0 +1,160 @@
+import { useState, useEffect, useRef, useCallback, useMemo, RefObject } from 'react';
+import {
+  QualityLevel,
+  SOURCE_MIME_TYPES,
+  StreamSourceType,
+  formatQualityLabel,
+  isAdaptiveSource
+} from '@/lib/streamSource';
+
+/** Quality index meaning "let the player choose" */
+export const AUTO_QUALITY = -1;
+
+interface UseAdaptiveStreamReturn {
+  /** True when the stream is attached through MSE rather than a <source> element */
+  usesMediaSource: boolean;
+  qualityLevels: QualityLevel[];
+  currentQuality: number;
+  setQuality: (index: number) => void;
+}
+
+interface StreamController {
+  setQuality: (index: number) => void;
+  destroy: () => void;
+}
+
+/**
+ * Whether the browser's own media stack can play a source type (e.g. HLS in Safari)
+ */
+function canPlayNatively(type: StreamSourceType): boolean {
+  return typeof document !== 'undefined' &&
+    document.createElement('video').canPlayType(SOURCE_MIME_TYPES[type]) !== '';
+}
+
+/**
+ * Custom hook that attaches HLS or DASH streams to a video element through
+ * Media Source Extensions. Progressive files, and HLS in browsers that play
+ * it natively (Safari), are left to the element itself. The streaming
+ * libraries are loaded on demand so MP4-only pages don't pay for them.
+ *
+ * @param videoRef - Ref to the video element
+ * @param src - The media URL
+ * @param sourceType - The detected source type
+ * @returns Available quality levels and a setter
+ */
+export function useAdaptiveStream(
+  videoRef: RefObject<HTMLVideoElement>,
+  src: string,
+  sourceType: StreamSourceType
+): UseAdaptiveStreamReturn {
+  const controllerRef = useRef<StreamController | null>(null);
+  const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
+  const [currentQuality, setCurrentQuality] = useState(AUTO_QUALITY);
+
+  const usesMediaSource = useMemo(
+    () => isAdaptiveSource(sourceType) && !(sourceType === 'hls' && canPlayNatively('hls')),
+    [sourceType]
+  );
+
+  useEffect(() => {
+    const video = videoRef.current;
+    setQualityLevels([]);
+    setCurrentQuality(AUTO_QUALITY);
+    if (!video || !usesMediaSource) return;
+
+    let isCancelled = false;
+
+    const attach = async (): Promise<StreamController | null> => {
+      if (sourceType === 'hls') {
+        const { default: Hls } = await import('hls.js');
+        if (isCancelled) return null;
+        if (!Hls.isSupported()) {
+          throw new Error('HLS playback is not supported in this browser');
+        }
+
+        const hls = new Hls();
+        hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+          setQualityLevels(data.levels.map((level, index) => ({
+            index,
+            height: level.height || 0,
+            bitrate: level.bitrate,
+            label: formatQualityLabel(level.height || 0, level.bitrate)
+          })));
+        });
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (!data.fatal) return;
+          // Recover where hls.js allows it; otherwise give up on the stream
+          if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+            hls.startLoad();
+          } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+            hls.recoverMediaError();
+          } else {
+            console.error('Fatal HLS error:', data);
+            hls.destroy();
+          }
+        });
+        hls.loadSource(src);
+        hls.attachMedia(video);
+
+        return {
+          // nextLevel switches at the next fragment, avoiding a buffer flush mid-playback
+          setQuality: (index) => { hls.nextLevel = index; },
+          destroy: () => hls.destroy()
+        };
+      }
+
+      const { default: dashjs } = await import('dashjs');
+      if (isCancelled) return null;
+
+      const player = dashjs.MediaPlayer().create();
+      player.initialize(video, src, false);
+      player.on(dashjs.MediaPlayer.events.STREAM_INITIALIZED, () => {
+        setQualityLevels(player.getBitrateInfoListFor('video').map(info => ({
+          index: info.qualityIndex,
+          height: info.height || 0,
+          bitrate: info.bitrate,
+          label: formatQualityLabel(info.height || 0, info.bitrate)
+        })));
+      });
+
+      return {
+        setQuality: (index) => {
+          const isAuto = index === AUTO_QUALITY;
+          player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: isAuto } } } });
+          if (!isAuto) {
+            player.setQualityFor('video', index);
+          }
+        },
+        destroy: () => player.reset()
+      };
+    };
+
+    attach()
+      .then(controller => {
+        if (isCancelled) {
+          controller?.destroy();
+        } else {
+          controllerRef.current = controller;
+        }
+      })
+      .catch(error => console.error('Error attaching adaptive stream:', error));
+
+    return () => {
+      isCancelled = true;
+      controllerRef.current?.destroy();
+      controllerRef.current = null;
+    };
+  }, [videoRef, src, sourceType, usesMediaSource]);
+
+  const setQuality = useCallback((index: number) => {
+    setCurrentQuality(index);
+    controllerRef.current?.setQuality(index);
+  }, []);
+
+  return {
+    usesMediaSource,
+    qualityLevels,
+    currentQuality,
+    setQuality
+  };
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  AttentionMonitor,
+  AttentionPolicy,
+  InattentionReason
+} from '@/lib/attentionMonitor';
+
+interface UseAttentionMonitorProps {
+  enabled: boolean;
+  policy?: Partial<AttentionPolicy>;
+  onInattentive?: (reason: InattentionReason) => void;
+  onAttentive?: () => void;
+}
+
+interface UseAttentionMonitorReturn {
+  isAttentive: boolean;
+  reason: InattentionReason | null;
+}
+
+/**
+ * Custom hook that runs an AttentionMonitor while enabled
+ *
+ * @param enabled - Whether to monitor attention, typically while the video is playing
+ * @param policy - Optional thresholds; read when monitoring starts
+ * @param onInattentive - Called when a signal lapses past its threshold
+ * @param onAttentive - Called when the learner is attentive again, including when
+ *                      monitoring is disabled while they were inattentive
+ * @returns The current attention state
+ */
+export function useAttentionMonitor({
+  enabled,
+  policy,
+  onInattentive,
+  onAttentive
+}: UseAttentionMonitorProps): UseAttentionMonitorReturn {
+  const [reason, setReason] = useState<InattentionReason | null>(null);
+  const policyRef = useRef(policy);
+  const callbacksRef = useRef({ onInattentive, onAttentive });
+  policyRef.current = policy;
+  callbacksRef.current = { onInattentive, onAttentive };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isInattentive = false;
+    const monitor = new AttentionMonitor(policyRef.current || {}, {
+      onInattentive: (lapsedReason) => {
+        isInattentive = true;
+        setReason(lapsedReason);
+        callbacksRef.current.onInattentive?.(lapsedReason);
+      },
+      onAttentive: () => {
+        isInattentive = false;
+        setReason(null);
+        callbacksRef.current.onAttentive?.();
+      }
+    });
+    monitor.start();
+
+    return () => {
+      monitor.stop();
+      if (isInattentive) {
+        setReason(null);
+        callbacksRef.current.onAttentive?.();
+      }
+    };
+  }, [enabled]);
+
+  return {
+    isAttentive: reason === null,
+    reason
+  };
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef } from 'react';
+import { Cmi5Session, Cmi5SessionOptions, parseCmi5LaunchParameters } from '@/lib/cmi5';
+
+// The fetch URL only works once, so each launch is started at most once per page
+const launches = new Map<string, Promise<Cmi5Session>>();
+
+/**
+ * Custom hook that starts a cmi5 session when the page was launched by a cmi5 LMS
+ *
+ * @param options - AU name and an optional fetch implementation
+ * @param search - Query string holding the launch parameters
+ * @returns The session once launched, or null outside a cmi5 launch or if launching failed
+ */
+export function useCmi5Session(
+  options: Cmi5SessionOptions = {},
+  search: string = window.location.search
+): Cmi5Session | null {
+  const [session, setSession] = useState<Cmi5Session | null>(null);
+  // Options are only read when the session launches
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    const params = parseCmi5LaunchParameters(search);
+    if (!params) return;
+
+    let launch = launches.get(search);
+    if (!launch) {
+      launch = Cmi5Session.launch(params, optionsRef.current);
+      launches.set(search, launch);
+    }
+
+    let isCurrent = true;
+    launch
+      .then(launched => {
+        if (isCurrent) setSession(launched);
+      })
+      .catch(error => {
+        console.error('Error launching cmi5 session:', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [search]);
+
+  return session;
+}
+
+/**
+ * Custom hook that follows whether a cmi5 session has met the LMS's moveOn criteria
+ *
+ * @param session - The session, or null outside a cmi5 launch
+ * @returns True once the learner may move on
+ */
+export function useCmi5MoveOn(session: Cmi5Session | null): boolean {
+  const [isSatisfied, setIsSatisfied] = useState(false);
+
+  useEffect(() => {
+    if (!session) {
+      setIsSatisfied(false);
+      return;
+    }
+    setIsSatisfied(session.isMoveOnSatisfied());
+    return session.on('moveOnSatisfied', () => setIsSatisfied(true));
+  }, [session]);
+
+  return isSatisfied;
+}
@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import { CourseManifest, fetchCourseManifest } from '@/lib/courseCatalog';
+
+/** Where the app's course manifest is served */
+export const COURSE_MANIFEST_URL = '/courses.json';
+
+interface UseCourseCatalogReturn {
+  manifest: CourseManifest | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Query options for a course manifest, shared by the hook and the startup prefetch
+ *
+ * @param url - Where the manifest is served
+ * @returns Options for useQuery or prefetchQuery
+ */
+export function courseManifestQuery(url: string = COURSE_MANIFEST_URL) {
+  return {
+    queryKey: ['course-manifest', url],
+    queryFn: () => fetchCourseManifest(url).catch(error => {
+      console.error('Error loading course manifest:', error);
+      throw error;
+    }),
+    // The manifest only changes with a deploy
+    staleTime: Infinity
+  };
+}
+
+/**
+ * Custom hook that provides the course manifest, loading it if the startup
+ * prefetch hasn't finished
+ *
+ * @param url - Where the manifest is served
+ * @returns The manifest once loaded, or why it couldn't be
+ */
+export function useCourseCatalog(url: string = COURSE_MANIFEST_URL): UseCourseCatalogReturn {
+  const { data, error, isLoading } = useQuery(courseManifestQuery(url));
+
+  return {
+    manifest: data ?? null,
+    error: error ? 'The course catalog could not be loaded.' : null,
+    isLoading
+  };
+}
@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef } from 'react';
+import { AnyProgressStore, LocalStorageProgressStore } from '@/lib/progressStore';
+import { ProgressSync, getSharedProgressSync } from '@/lib/progressSync';
+import {
+  CourseCompletionRule,
+  CourseModule,
+  CourseProgress,
+  CourseProgressTracker,
+  CourseVideo,
+  aggregateCourseProgress
+} from '@/lib/courseProgress';
+
+const defaultStore = new LocalStorageProgressStore();
+
+interface UseCourseProgressProps {
+  courseId: string;
+  /** The course's videos, in order */
+  videos: CourseVideo[];
+  modules?: CourseModule[];
+  completionRule?: Partial<CourseCompletionRule>;
+  /** Where video progress is read from; defaults to localStorage. Should be stable across renders. */
+  store?: AnyProgressStore;
+  /** Live saves from video trackers; defaults to the shared sync, pass null to disable */
+  sync?: ProgressSync | null;
+  onComplete?: (progress: CourseProgress) => void;
+}
+
+/**
+ * Custom hook that follows a course's progress as its videos are watched,
+ * here or in other tabs
+ *
+ * @param courseId - Unique identifier for the course
+ * @param videos - The course's videos, in order, with optional weights and modules
+ * @param modules - Optional module titles, in order
+ * @param completionRule - Optional minimum course progress on top of completing required videos
+ * @param store - Optional store to read video progress from
+ * @param sync - Optional live progress sync; defaults to the shared cross-tab sync, pass null to disable
+ * @param onComplete - Optional callback fired when the course becomes complete
+ * @returns Course, module and per-video progress
+ */
+export function useCourseProgress({
+  courseId,
+  videos,
+  modules,
+  completionRule,
+  store = defaultStore,
+  sync,
+  onComplete
+}: UseCourseProgressProps): CourseProgress {
+  const configRef = useRef({ videos, modules, completionRule });
+  configRef.current = { videos, modules, completionRule };
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  // Rebuild the tracker when the course's structure changes, not on every new array
+  const configKey = JSON.stringify({ videos, modules, completionRule });
+  const resolvedSync = sync === undefined ? getSharedProgressSync() : sync;
+
+  const [progress, setProgress] = useState<CourseProgress>(() =>
+    aggregateCourseProgress(courseId, videos, {}, modules)
+  );
+
+  useEffect(() => {
+    const config = configRef.current;
+    const tracker = new CourseProgressTracker(courseId, config.videos, {
+      store,
+      sync: resolvedSync ?? undefined,
+      modules: config.modules,
+      completionRule: config.completionRule
+    });
+    tracker.on('progress', setProgress);
+    tracker.on('complete', completed => onCompleteRef.current?.(completed));
+    setProgress(tracker.getProgress());
+    tracker.load();
+
+    return () => {
+      tracker.destroy();
+    };
+  }, [courseId, configKey, store, resolvedSync]);
+
+  return progress;
+}
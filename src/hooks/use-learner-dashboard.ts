@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { AnyProgressStore, LocalStorageProgressStore, SessionLogEntry } from '@/lib/progressStore';
+import { VideoSummary, loadDashboardData } from '@/lib/learnerDashboard';
+
+const defaultStore = new LocalStorageProgressStore();
+
+interface UseLearnerDashboardReturn {
+  videos: VideoSummary[];
+  sessions: SessionLogEntry[];
+  isLoading: boolean;
+}
+
+/**
+ * Custom hook that reads every tracked video and its session log from a store
+ *
+ * @param store - Optional store to read from; defaults to localStorage. Should be stable across renders.
+ * @returns Video summaries, most recently watched first, and their session logs
+ */
+export function useLearnerDashboard(store: AnyProgressStore = defaultStore): UseLearnerDashboardReturn {
+  const [videos, setVideos] = useState<VideoSummary[]>([]);
+  const [sessions, setSessions] = useState<SessionLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    loadDashboardData(store)
+      .then(data => {
+        if (isCurrent) {
+          setVideos(data.videos);
+          setSessions(data.sessions);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading dashboard:', error);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [store]);
+
+  return { videos, sessions, isLoading };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { LtiClient, LtiLaunch, parseLtiLaunch } from '@/lib/lti';
+
+interface UseLtiLaunchReturn {
+  launch: LtiLaunch | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Custom hook that validates an LTI 1.3 launch id_token
+ *
+ * @param client - Client that verifies the token
+ * @param idToken - The launch id_token, or null if the page was not launched
+ * @returns The parsed launch once validated, or the reason it was rejected
+ */
+export function useLtiLaunch(client: LtiClient, idToken: string | null): UseLtiLaunchReturn {
+  const [launch, setLaunch] = useState<LtiLaunch | null>(null);
+  const [error, setError] = useState<string | null>(
+    idToken ? null : 'This page must be launched from your learning platform.'
+  );
+  const [isLoading, setIsLoading] = useState(!!idToken);
+
+  useEffect(() => {
+    if (!idToken) return;
+
+    let isCurrent = true;
+    setIsLoading(true);
+    client.validateLaunch(idToken)
+      .then(claims => {
+        if (isCurrent) {
+          setLaunch(parseLtiLaunch(claims));
+          setError(null);
+        }
+      })
+      .catch(launchError => {
+        console.error('Error validating LTI launch:', launchError);
+        if (isCurrent) {
+          setLaunch(null);
+          setError(launchError instanceof Error ? launchError.message : 'The launch could not be validated.');
+        }
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [client, idToken]);
+
+  return { launch, error, isLoading };
+}
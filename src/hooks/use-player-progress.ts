@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { PlayerAdapter, connectPlayerToTracker } from '@/lib/playerAdapter';
+import {
+  useVideoProgress,
+  UseVideoProgressProps,
+  UseVideoProgressReturn
+} from '@/hooks/use-video-progress';
+
+interface UsePlayerProgressReturn extends UseVideoProgressReturn {
+  currentTime: number;
+  duration: number;
+}
+
+/**
+ * Custom hook that tracks progress for any PlayerAdapter (native, YouTube,
+ * Vimeo or mock). Duration comes from the player, so it is not a prop.
+ *
+ * @param adapter - The player to track, or null while it is still loading
+ * @param props - Same options as useVideoProgress, minus duration
+ * @returns Progress data and utility functions, plus the player's current time and duration
+ */
+export function usePlayerProgress(
+  adapter: PlayerAdapter | null,
+  props: Omit<UseVideoProgressProps, 'duration'>
+): UsePlayerProgressReturn {
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const progress = useVideoProgress({ ...props, duration });
+  const { startTracking, stopTracking, handleSeek, setPlaybackRate } = progress;
+
+  useEffect(() => {
+    if (!adapter) return;
+
+    setCurrentTime(adapter.getCurrentTime());
+    const disconnect = connectPlayerToTracker(adapter, {
+      startTracking,
+      stopTracking,
+      handleSeek,
+      setPlaybackRate,
+      onDurationChange: setDuration,
+      onTimeUpdate: setCurrentTime
+    });
+
+    return () => {
+      // Close the open segment so switching players doesn't lose watch time
+      stopTracking(adapter.getCurrentTime());
+      disconnect();
+    };
+  }, [adapter, startTracking, stopTracking, handleSeek, setPlaybackRate]);
+
+  return {
+    ...progress,
+    currentTime,
+    duration
+  };
+}
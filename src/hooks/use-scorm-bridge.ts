@@ -0,0 +1,21 @@
+import { useState } from 'react';
+import { ScormProgressBridge, ScormProgressBridgeOptions } from '@/lib/scorm';
+
+// The LMS session can only be initialized once, so every caller on the page shares it
+let sharedBridge: ScormProgressBridge | null | undefined;
+
+/**
+ * Custom hook that connects to the LMS when the page runs inside a SCORM package
+ *
+ * @param options - Commit throttling and suspend data limits, read on the first connect
+ * @returns The bridge, or null outside an LMS
+ */
+export function useScormBridge(options: ScormProgressBridgeOptions = {}): ScormProgressBridge | null {
+  const [bridge] = useState(() => {
+    if (sharedBridge === undefined) {
+      sharedBridge = ScormProgressBridge.connect(window, options);
+    }
+    return sharedBridge;
+  });
+  return bridge;
+}
@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { OfflineSyncEngine, SyncStatus } from '@/lib/offlineSync';
+
+/**
+ * Custom hook that follows an OfflineSyncEngine's status
+ *
+ * @param engine - The engine to follow, if any
+ * @returns The current sync status, or null without an engine
+ */
+export function useSyncStatus(engine?: OfflineSyncEngine | null): SyncStatus | null {
+  const [status, setStatus] = useState<SyncStatus | null>(() => engine?.getStatus() ?? null);
+
+  useEffect(() => {
+    if (!engine) {
+      setStatus(null);
+      return;
+    }
+    setStatus(engine.getStatus());
+    return engine.onStatusChange(setStatus);
+  }, [engine]);
+
+  return status;
+}
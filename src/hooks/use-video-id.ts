@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { AnyProgressStore, LocalStorageProgressStore } from '@/lib/progressStore';
+import {
+  VideoIdStrategy,
+  legacyVideoId,
+  rekeyProgress,
+  urlHashStrategy
+} from '@/lib/videoIdentity';
+
+const defaultStore = new LocalStorageProgressStore();
+
+interface UseVideoIdProps {
+  /** Caller-supplied ID; when set, the strategy is not consulted */
+  videoId?: string;
+  videoUrl: string;
+  duration: number;
+  strategy?: VideoIdStrategy;
+  /** Store to migrate legacy filename-keyed progress in; defaults to localStorage */
+  store?: AnyProgressStore;
+}
+
+/**
+ * Custom hook that resolves the stable ID to track a video under, moving
+ * any progress saved under the legacy filename ID to it first if it was
+ * tracked against this video's duration. While such a record exists the
+ * ID is held back until the duration is known.
+ *
+ * @param videoId - Optional caller-supplied ID
+ * @param videoUrl - The media URL
+ * @param duration - Duration in seconds, for strategies that need it
+ * @param strategy - How to derive the ID when none is supplied; defaults to a URL hash. Should be stable across renders.
+ * @param store - Optional store holding legacy progress. Should be stable across renders.
+ * @returns The resolved ID, or null while it is still being resolved
+ */
+export function useVideoId({
+  videoId,
+  videoUrl,
+  duration,
+  strategy = urlHashStrategy,
+  store = defaultStore
+}: UseVideoIdProps): string | null {
+  const sourceKey = videoId ?? videoUrl;
+  const [resolved, setResolved] = useState<{ sourceKey: string; id: string } | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const resolve = async () => {
+      let id: string | null;
+      try {
+        id = videoId ?? await strategy({ videoUrl, duration });
+      } catch (error) {
+        console.error('Error resolving video ID:', error);
+        id = urlHashStrategy({ videoUrl, duration }) as string;
+      }
+      if (!id || isCancelled) return;
+
+      try {
+        const legacyId = legacyVideoId(videoUrl);
+        // Every video with this filename shares the legacy record, so wait
+        // for the duration to tell whether it was recorded against this one
+        if (duration <= 0 && legacyId !== id && await store.load(legacyId)) return;
+        await rekeyProgress(store, legacyId, id, duration);
+      } catch (error) {
+        console.error('Error migrating legacy progress:', error);
+      }
+      if (!isCancelled) {
+        setResolved(current =>
+          current && current.sourceKey === sourceKey && current.id === id ? current : { sourceKey, id }
+        );
+      }
+    };
+
+    resolve();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [sourceKey, videoId, videoUrl, duration, strategy, store]);
+
+  // Never hand back an ID resolved for a previous video
+  return resolved && resolved.sourceKey === sourceKey ? resolved.id : null;
+}
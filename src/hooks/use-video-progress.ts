@@ -1,57 +1,171 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { VideoProgressTracker, VideoProgressData, WatchedInterval } from '@/lib/videoProgressTracker';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  VideoProgressTracker,
+  VideoProgressData,
+  WatchedInterval,
+  PlaybackRatePolicy,
+  SuspiciousSegment,
+  TrackingEvent,
+  TrackerEventMap,
+  TrackerEventType,
+  WallClockVerification,
+  DEFAULT_PLAYBACK_RATE_POLICY
+} from '@/lib/videoProgressTracker';
+import { AnyProgressStore } from '@/lib/progressStore';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/progressSchema';
+import { DEFAULT_HEATMAP_BUCKET_SIZE, HeatmapData } from '@/lib/viewHeatmap';
+import {
+  CompletionRules,
+  CompletionStatus,
+  DEFAULT_COMPLETION_RULES,
+  evaluateCompletion
+} from '@/lib/completionRules';
+import {
+  Chapter,
+  ChapterProgress,
+  computeChapterProgress,
+  getRequiredChapterSegments
+} from '@/lib/chapters';
+import { DurationMismatchEvent, DurationReconciliation } from '@/lib/durationReconciliation';
+import { ProgressSync, getSharedProgressSync } from '@/lib/progressSync';
+import { ServerProgressSync } from '@/lib/offlineSync';
 
-interface UseVideoProgressProps {
-  videoId: string;
+const NO_CHAPTERS: Chapter[] = [];
+
+export interface UseVideoProgressProps {
+  /** null while the ID is still being resolved; no tracker exists until it is set */
+  videoId: string | null;
   duration?: number;
   onProgressUpdate?: (data: VideoProgressData) => void;
+  store?: AnyProgressStore;
+  playbackRatePolicy?: Partial<PlaybackRatePolicy>;
+  wallClockVerification?: Partial<WallClockVerification>;
+  heatmapBucketSize?: number;
+  completionRules?: Partial<CompletionRules>;
+  onComplete?: (data: VideoProgressData) => void;
+  onTrackingEvent?: (event: TrackingEvent) => void;
+  chapters?: Chapter[];
+  durationReconciliation?: Partial<DurationReconciliation>;
+  onDurationMismatch?: (event: DurationMismatchEvent) => void;
+  /** Cross-tab sync; defaults to the shared BroadcastChannel sync, null disables it */
+  sync?: ProgressSync | null;
+  serverSync?: ServerProgressSync;
 }
 
-interface UseVideoProgressReturn {
+export interface UseVideoProgressReturn {
   progressPercentage: number;
   lastPosition: number;
   watchedIntervals: WatchedInterval[];
+  playbackRatePolicy: PlaybackRatePolicy;
+  suspiciousSegments: SuspiciousSegment[];
+  heatmap: HeatmapData;
+  isComplete: boolean;
+  completedAt: string | null;
+  completionStatus: CompletionStatus;
+  chapterProgress: ChapterProgress[];
   startTracking: (currentTime: number) => void;
   stopTracking: (currentTime: number) => void;
-  handleSeek: (currentTime: number) => void;
+  handleSeek: (currentTime: number, previousTime?: number) => void;
   updatePosition: (currentTime: number) => void;
+  setPlaybackRate: (rate: number, currentTime?: number) => void;
+  suspendCrediting: (currentTime: number) => void;
+  resumeCrediting: (currentTime: number) => void;
   reset: () => void;
   exportProgressData: () => string;
   importProgressData: (jsonData: string) => boolean;
+  mergeRemoteProgress: (payload: unknown) => boolean;
+  /** The underlying tracker, for subscribing with useTrackerEvent; null until the video ID resolves */
+  tracker: VideoProgressTracker | null;
 }
 
 /**
  * Custom hook for tracking video progress in React components
  * 
- * @param videoId - Unique identifier for the video
+ * @param videoId - Unique identifier for the video, or null while it is being resolved
  * @param duration - Duration of the video in seconds
  * @param onProgressUpdate - Optional callback function called when progress is updated
+ * @param store - Optional progress store; defaults to localStorage. Should be stable across renders.
+ * @param playbackRatePolicy - Optional crediting policy for high playback rates, read when the tracker is created
+ * @param wallClockVerification - Optional settings for checking media time against real time, read when the tracker is created
+ * @param heatmapBucketSize - Optional width in seconds of each view-count heatmap bucket, read when the tracker is created
+ * @param completionRules - Optional rules deciding when the video counts as completed, read when the tracker is created
+ * @param onComplete - Optional callback fired once, when the completion rules are first met
+ * @param onTrackingEvent - Optional callback for play, pause, seek and completion events
+ * @param chapters - Optional chapter list; required chapters must be watched in full to complete
+ * @param durationReconciliation - Optional policy for saved progress recorded against a different duration, read when the tracker is created
+ * @param onDurationMismatch - Optional callback fired when saved progress was reconciled to a new duration
+ * @param sync - Optional progress sync between tabs; defaults to the shared cross-tab sync, pass null to disable. Read when the tracker is created.
+ * @param serverSync - Optional engine that syncs progress to a server, read when the tracker is created
  * @returns Object with progress data and utility functions
  */
 export function useVideoProgress({ 
   videoId, 
   duration = 0,
-  onProgressUpdate 
+  onProgressUpdate,
+  store,
+  playbackRatePolicy,
+  wallClockVerification,
+  heatmapBucketSize = DEFAULT_HEATMAP_BUCKET_SIZE,
+  completionRules,
+  onComplete,
+  onTrackingEvent,
+  chapters = NO_CHAPTERS,
+  durationReconciliation,
+  onDurationMismatch,
+  sync = getSharedProgressSync(),
+  serverSync
 }: UseVideoProgressProps): UseVideoProgressReturn {
   const trackerRef = useRef<VideoProgressTracker | null>(null);
+  const [tracker, setTracker] = useState<VideoProgressTracker | null>(null);
+  const onProgressUpdateRef = useRef(onProgressUpdate);
+  onProgressUpdateRef.current = onProgressUpdate;
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const onTrackingEventRef = useRef(onTrackingEvent);
+  onTrackingEventRef.current = onTrackingEvent;
+  const onDurationMismatchRef = useRef(onDurationMismatch);
+  onDurationMismatchRef.current = onDurationMismatch;
   const [progressData, setProgressData] = useState<VideoProgressData>({
     intervals: [],
     lastPosition: 0,
     totalProgress: 0,
-    videoId,
-    updatedAt: new Date().toISOString()
+    videoId: videoId ?? '',
+    updatedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    playbackRatePolicy: { ...DEFAULT_PLAYBACK_RATE_POLICY, ...playbackRatePolicy },
+    suspiciousSegments: [],
+    heatmap: { bucketSize: heatmapBucketSize, counts: [] },
+    completedAt: null,
+    trackedDuration: duration
   });
 
   // Initialize the tracker on mount
   useEffect(() => {
+    if (!videoId) {
+      trackerRef.current = null;
+      setTracker(null);
+      return;
+    }
+
     const handleProgressUpdate = (data: VideoProgressData) => {
       setProgressData(data);
-      if (onProgressUpdate) {
-        onProgressUpdate(data);
-      }
+      onProgressUpdateRef.current?.(data);
     };
 
-    trackerRef.current = new VideoProgressTracker(videoId, duration, handleProgressUpdate);
+    trackerRef.current = new VideoProgressTracker(videoId, duration, handleProgressUpdate, {
+      store,
+      playbackRatePolicy,
+      wallClockVerification,
+      heatmapBucketSize,
+      completionRules,
+      chapters,
+      onComplete: (data) => onCompleteRef.current?.(data),
+      onTrackingEvent: (event) => onTrackingEventRef.current?.(event),
+      durationReconciliation,
+      onDurationMismatch: (event) => onDurationMismatchRef.current?.(event),
+      sync: sync ?? undefined,
+      serverSync
+    });
     
     // Set initial progress data
     setProgressData(trackerRef.current.getProgressData());
@@ -61,10 +175,12 @@ export function useVideoProgress({
       trackerRef.current.setDuration(duration);
     }
 
+    const created = trackerRef.current;
+    setTracker(created);
     return () => {
-      // Any cleanup if needed
+      created.destroy();
     };
-  }, [videoId]);
+  }, [videoId, store]);
 
   // Update duration when it changes
   useEffect(() => {
@@ -73,6 +189,28 @@ export function useVideoProgress({
     }
   }, [duration]);
 
+  // Keep the tracker's chapters in sync so required chapters count toward completion
+  useEffect(() => {
+    if (trackerRef.current) {
+      trackerRef.current.setChapters(chapters);
+    }
+  }, [chapters]);
+
+  // Which completion rules are met so far
+  const completionStatus = useMemo(() => {
+    const rules = { ...DEFAULT_COMPLETION_RULES, ...completionRules };
+    return evaluateCompletion(progressData.intervals, duration, {
+      ...rules,
+      requiredSegments: [...rules.requiredSegments, ...getRequiredChapterSegments(chapters)]
+    });
+  }, [progressData.intervals, duration, completionRules, chapters]);
+
+  // Coverage for each chapter
+  const chapterProgress = useMemo(
+    () => computeChapterProgress(chapters, progressData.intervals),
+    [chapters, progressData.intervals]
+  );
+
   // Start tracking a new segment
   const startTracking = useCallback((currentTime: number) => {
     if (trackerRef.current) {
@@ -88,9 +226,9 @@ export function useVideoProgress({
   }, []);
 
   // Handle seeking/jumping in the video
-  const handleSeek = useCallback((currentTime: number) => {
+  const handleSeek = useCallback((currentTime: number, previousTime?: number) => {
     if (trackerRef.current) {
-      trackerRef.current.handleSeek(currentTime);
+      trackerRef.current.handleSeek(currentTime, previousTime);
     }
   }, []);
 
@@ -101,6 +239,27 @@ export function useVideoProgress({
     }
   }, []);
 
+  // Update the playback rate used to credit watched segments
+  const setPlaybackRate = useCallback((rate: number, currentTime?: number) => {
+    if (trackerRef.current) {
+      trackerRef.current.setPlaybackRate(rate, currentTime);
+    }
+  }, []);
+
+  // Stop crediting watch time, e.g. while the learner is away
+  const suspendCrediting = useCallback((currentTime: number) => {
+    if (trackerRef.current) {
+      trackerRef.current.suspendCrediting(currentTime);
+    }
+  }, []);
+
+  // Resume crediting watch time
+  const resumeCrediting = useCallback((currentTime: number) => {
+    if (trackerRef.current) {
+      trackerRef.current.resumeCrediting(currentTime);
+    }
+  }, []);
+
   // Reset all progress data
   const reset = useCallback(() => {
     if (trackerRef.current) {
@@ -124,16 +283,59 @@ export function useVideoProgress({
     return false;
   }, []);
 
+  // Merge progress saved elsewhere, e.g. restored from an LMS
+  const mergeRemoteProgress = useCallback((payload: unknown): boolean => {
+    if (trackerRef.current) {
+      return trackerRef.current.mergeRemoteProgress(payload);
+    }
+    return false;
+  }, []);
+
   return {
     progressPercentage: progressData.totalProgress,
     lastPosition: progressData.lastPosition,
     watchedIntervals: progressData.intervals,
+    playbackRatePolicy: progressData.playbackRatePolicy,
+    suspiciousSegments: progressData.suspiciousSegments,
+    heatmap: progressData.heatmap,
+    isComplete: progressData.completedAt !== null,
+    completedAt: progressData.completedAt,
+    completionStatus,
+    chapterProgress,
     startTracking,
     stopTracking,
     handleSeek,
     updatePosition,
+    setPlaybackRate,
+    suspendCrediting,
+    resumeCrediting,
     reset,
     exportProgressData,
-    importProgressData
+    importProgressData,
+    mergeRemoteProgress,
+    tracker
   };
+}
+
+/**
+ * Custom hook that listens for a tracker event, e.g. from the `tracker`
+ * returned by useVideoProgress. The handler may change between renders
+ * without resubscribing.
+ * 
+ * @param tracker - The tracker to listen to; nothing happens while null
+ * @param type - The event to listen for
+ * @param handler - Called with the event's payload
+ */
+export function useTrackerEvent<K extends TrackerEventType>(
+  tracker: VideoProgressTracker | null | undefined,
+  type: K,
+  handler: (payload: TrackerEventMap[K]) => void
+): void {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!tracker) return;
+    return tracker.on(type, payload => handlerRef.current(payload));
+  }, [tracker, type]);
 } 
\ No newline at end of file
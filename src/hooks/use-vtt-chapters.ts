@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { Chapter } from '@/lib/chapters';
+import { cuesToChapters, parseWebVTT } from '@/lib/webvtt';
+
+interface UseVttChaptersReturn {
+  chapters: Chapter[] | null;
+  error: Error | null;
+}
+
+/**
+ * Custom hook that loads chapters from a WebVTT chapters track
+ *
+ * @param src - URL of the .vtt file, or undefined to skip loading
+ * @param requiredIds - Cue identifiers (or titles) of required chapters
+ * @returns Parsed chapters once loaded (null until then) and any load error
+ */
+export function useVttChapters(src?: string, requiredIds: string[] = []): UseVttChaptersReturn {
+  const [chapters, setChapters] = useState<Chapter[] | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const requiredKey = requiredIds.join('\n');
+
+  useEffect(() => {
+    setChapters(null);
+    setError(null);
+    if (!src) return;
+
+    const controller = new AbortController();
+    fetch(src, { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load chapters: ${response.status} ${response.statusText}`);
+        }
+        return response.text();
+      })
+      .then(text => {
+        const required = requiredKey ? requiredKey.split('\n') : [];
+        setChapters(cuesToChapters(parseWebVTT(text), required));
+      })
+      .catch(loadError => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading chapters track:', loadError);
+        setError(loadError);
+      });
+
+    return () => controller.abort();
+  }, [src, requiredKey]);
+
+  return { chapters, error };
+}
@@ -0,0 +1,184 @@
+/**
+ * Attention Monitor
+ *
+ * Watches Page Visibility, window focus and user input to decide whether
+ * the learner is still paying attention. Once a signal (tab hidden, window
+ * blurred, no input) has lasted beyond its threshold the monitor reports
+ * the learner as inattentive, so the player can stop crediting watch time.
+ */
+
+export type InattentionReason = 'hidden' | 'blurred' | 'idle';
+
+/**
+ * What the player should do when the learner becomes inattentive:
+ * - 'pause': pause the video
+ * - 'continue': keep playing but don't credit watch time
+ * - 'prompt': keep playing without credit and ask "Are you still watching?"
+ */
+export type AttentionAction = 'pause' | 'continue' | 'prompt';
+
+export interface AttentionPolicy {
+  action: AttentionAction;
+  /** Seconds the tab may be hidden before crediting stops */
+  hiddenThresholdSeconds: number;
+  /** Seconds the window may be unfocused before crediting stops, or null to ignore blur */
+  blurThresholdSeconds: number | null;
+  /**
+   * Seconds without input before the learner counts as idle, or null to
+   * ignore idleness. Off by default, since learners often watch hands-free.
+   */
+  idleTimeoutSeconds: number | null;
+}
+
+export const DEFAULT_ATTENTION_POLICY: AttentionPolicy = {
+  action: 'continue',
+  hiddenThresholdSeconds: 10,
+  blurThresholdSeconds: null,
+  idleTimeoutSeconds: null
+};
+
+export interface AttentionMonitorCallbacks {
+  onInattentive: (reason: InattentionReason) => void;
+  onAttentive: () => void;
+}
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+export class AttentionMonitor {
+  private policy: AttentionPolicy;
+  private callbacks: AttentionMonitorCallbacks;
+  private doc: Document;
+  private win: Window;
+  private timers = new Map<InattentionReason, ReturnType<typeof setTimeout>>();
+  private lapsed = new Set<InattentionReason>();
+  private isRunning: boolean = false;
+
+  /**
+   * Creates a new AttentionMonitor instance
+   *
+   * @param policy - Thresholds and action; missing fields use DEFAULT_ATTENTION_POLICY
+   * @param callbacks - Called when the learner becomes inattentive or attentive again
+   * @param win - Window to observe. Defaults to the global window.
+   */
+  constructor(
+    policy: Partial<AttentionPolicy>,
+    callbacks: AttentionMonitorCallbacks,
+    win: Window = window
+  ) {
+    this.policy = { ...DEFAULT_ATTENTION_POLICY, ...policy };
+    this.callbacks = callbacks;
+    this.win = win;
+    this.doc = win.document;
+  }
+
+  /**
+   * Start listening for attention signals
+   */
+  public start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    this.doc.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.win.addEventListener('blur', this.handleBlur);
+    this.win.addEventListener('focus', this.handleFocus);
+    ACTIVITY_EVENTS.forEach(event => {
+      this.win.addEventListener(event, this.handleActivity, { passive: true });
+    });
+
+    if (this.doc.hidden) {
+      this.handleVisibilityChange();
+    }
+    this.scheduleIdle();
+  }
+
+  /**
+   * Stop listening and clear all state without firing callbacks
+   */
+  public stop(): void {
+    if (!this.isRunning) return;
+    this.isRunning = false;
+
+    this.doc.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.win.removeEventListener('blur', this.handleBlur);
+    this.win.removeEventListener('focus', this.handleFocus);
+    ACTIVITY_EVENTS.forEach(event => {
+      this.win.removeEventListener(event, this.handleActivity);
+    });
+
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.lapsed.clear();
+  }
+
+  /**
+   * Whether any attention signal has lapsed past its threshold
+   *
+   * @returns True if the learner is currently considered attentive
+   */
+  public isAttentive(): boolean {
+    return this.lapsed.size === 0;
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (this.doc.hidden) {
+      this.beginSignal('hidden', this.policy.hiddenThresholdSeconds);
+    } else {
+      this.endSignal('hidden');
+    }
+  };
+
+  private handleBlur = (): void => {
+    this.beginSignal('blurred', this.policy.blurThresholdSeconds);
+  };
+
+  private handleFocus = (): void => {
+    this.endSignal('blurred');
+  };
+
+  private handleActivity = (): void => {
+    this.endSignal('idle');
+    this.scheduleIdle();
+  };
+
+  private scheduleIdle(): void {
+    this.beginSignal('idle', this.policy.idleTimeoutSeconds);
+  }
+
+  /**
+   * Start the threshold timer for a signal
+   *
+   * @param reason - The signal that started
+   * @param thresholdSeconds - How long it may last before it lapses, or null to ignore it
+   */
+  private beginSignal(reason: InattentionReason, thresholdSeconds: number | null): void {
+    if (thresholdSeconds === null || this.lapsed.has(reason)) return;
+
+    const existing = this.timers.get(reason);
+    if (existing) clearTimeout(existing);
+
+    this.timers.set(reason, setTimeout(() => {
+      this.timers.delete(reason);
+      const wasAttentive = this.isAttentive();
+      this.lapsed.add(reason);
+      if (wasAttentive) {
+        this.callbacks.onInattentive(reason);
+      }
+    }, thresholdSeconds * 1000));
+  }
+
+  /**
+   * Clear a signal, reporting attention again if it was the last lapsed one
+   *
+   * @param reason - The signal that ended
+   */
+  private endSignal(reason: InattentionReason): void {
+    const timer = this.timers.get(reason);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(reason);
+    }
+    if (this.lapsed.delete(reason) && this.isAttentive()) {
+      this.callbacks.onAttentive();
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Chapters
+ *
+ * Per-chapter coverage computed from merged watched intervals. Required
+ * chapters also feed into the completion rules.
+ */
+
+import type { WatchedInterval } from '@/lib/videoProgressTracker';
+import { getCoveredSeconds, isRangeCovered } from '@/lib/completionRules';
+
+export interface Chapter {
+  id: string;
+  title: string;
+  start: number;
+  end: number;
+  /** Whether the chapter must be watched in full for the video to complete */
+  required?: boolean;
+}
+
+export interface ChapterProgress extends Chapter {
+  watchedSeconds: number;
+  progressPercent: number;
+  isComplete: boolean;
+}
+
+/**
+ * Compute coverage for each chapter
+ *
+ * @param chapters - Chapters in any order
+ * @param intervals - Merged, non-overlapping intervals
+ * @returns Progress for each chapter, ordered by start time
+ */
+export function computeChapterProgress(chapters: Chapter[], intervals: WatchedInterval[]): ChapterProgress[] {
+  return [...chapters]
+    .sort((a, b) => a.start - b.start)
+    .map(chapter => {
+      const length = chapter.end - chapter.start;
+      const watchedSeconds = getCoveredSeconds(intervals, chapter);
+      return {
+        ...chapter,
+        watchedSeconds,
+        progressPercent: length > 0 ? Math.min((watchedSeconds / length) * 100, 100) : 0,
+        isComplete: length > 0 && isRangeCovered(intervals, chapter)
+      };
+    });
+}
+
+/**
+ * Get the ranges of required chapters, for use as required completion segments
+ *
+ * @param chapters - All chapters
+ * @returns The start and end of every required chapter
+ */
+export function getRequiredChapterSegments(chapters: Chapter[]): WatchedInterval[] {
+  return chapters
+    .filter(chapter => chapter.required)
+    .map(chapter => ({ start: chapter.start, end: chapter.end }));
+}
+
+/**
+ * Find the chapter containing a position
+ *
+ * @param chapters - All chapters
+ * @param time - Position in seconds
+ * @returns The chapter, or undefined if none contains the position
+ */
+export function findChapterAt(chapters: Chapter[], time: number): Chapter | undefined {
+  return chapters.find(chapter => time >= chapter.start && time < chapter.end);
+}
@@ -0,0 +1,382 @@
+/**
+ * cmi5 Launch and Session
+ *
+ * Lets the player run as a cmi5 assignable unit (AU). The LMS launches the
+ * AU with endpoint, fetch, actor, registration and activityId query
+ * parameters; the AU trades the fetch URL for an LRS auth token, reads
+ * LMS.LaunchData from the State API, and then reports the session with
+ * cmi5-defined Initialized, Completed and Terminated statements.
+ *
+ * Completed may be sent only once per registration, so the AU records in
+ * its own State API document that it has been sent, and the player keeps
+ * progress per registration (see getCmi5ProgressId) so that watching the
+ * video elsewhere doesn't count toward it.
+ *
+ * See https://github.com/AICC/CMI-5_Spec_Current
+ */
+
+import type { VideoProgressData } from '@/lib/videoProgressTracker';
+import {
+  LrsClient,
+  XAPI_VERBS,
+  XapiActor,
+  XapiContextTemplate,
+  XapiStatement,
+  XapiVideoEmitter,
+  XapiVideoEmitterOptions,
+  applyContextTemplate,
+  createUuid,
+  formatIsoDuration
+} from '@/lib/xapi';
+import { TypedEventEmitter } from '@/lib/typedEventEmitter';
+
+export const CMI5_CATEGORY = 'https://w3id.org/xapi/cmi5/context/categories/cmi5';
+export const CMI5_MOVEON_CATEGORY = 'https://w3id.org/xapi/cmi5/context/categories/moveon';
+export const CMI5_SESSION_ID_EXTENSION = 'https://w3id.org/xapi/cmi5/context/extensions/sessionid';
+export const CMI5_LAUNCH_DATA_STATE_ID = 'LMS.LaunchData';
+/** State document where the AU records what it has reported for a registration */
+export const CMI5_AU_STATE_ID = 'tvp.AuState';
+
+export type Cmi5LaunchMode = 'Normal' | 'Browse' | 'Review';
+
+export type Cmi5MoveOn = 'Passed' | 'Completed' | 'CompletedAndPassed' | 'CompletedOrPassed' | 'NotApplicable';
+
+/**
+ * Query parameters the LMS launches an AU with
+ */
+export interface Cmi5LaunchParameters {
+  endpoint: string;
+  fetchUrl: string;
+  actor: XapiActor;
+  registration: string;
+  activityId: string;
+}
+
+/**
+ * The LMS.LaunchData state document
+ */
+export interface Cmi5LaunchData {
+  contextTemplate: XapiContextTemplate;
+  launchMode: Cmi5LaunchMode;
+  moveOn: Cmi5MoveOn;
+  launchMethod?: 'AnyWindow' | 'OwnWindow';
+  masteryScore?: number;
+  returnURL?: string;
+  launchParameters?: string;
+}
+
+/**
+ * The AU's own state document for a registration
+ */
+export interface Cmi5AuState {
+  /** When Completed was sent for the registration, or null if it hasn't been */
+  completedAt: string | null;
+}
+
+export class Cmi5LaunchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Cmi5LaunchError';
+  }
+}
+
+/**
+ * Read cmi5 launch parameters from a query string
+ *
+ * @param search - The query string, e.g. window.location.search
+ * @returns The parameters, or null if the page was not launched by a cmi5 LMS
+ */
+export function parseCmi5LaunchParameters(search: string): Cmi5LaunchParameters | null {
+  const query = new URLSearchParams(search);
+  const endpoint = query.get('endpoint');
+  const fetchUrl = query.get('fetch');
+  const actorJson = query.get('actor');
+  const registration = query.get('registration');
+  const activityId = query.get('activityId');
+  if (!endpoint || !fetchUrl || !actorJson || !registration || !activityId) {
+    return null;
+  }
+
+  try {
+    const actor = JSON.parse(actorJson) as XapiActor;
+    return { endpoint, fetchUrl, actor, registration, activityId };
+  } catch (error) {
+    console.error('Error parsing cmi5 actor:', error);
+    return null;
+  }
+}
+
+/**
+ * The ID to save a video's progress under during a cmi5 launch, so that
+ * only watching done within the registration counts toward completing it
+ *
+ * @param videoId - The video's usual progress ID
+ * @param params - The launch parameters
+ * @returns A progress ID scoped to the registration
+ */
+export function getCmi5ProgressId(videoId: string, params: Cmi5LaunchParameters): string {
+  return `${videoId}:cmi5:${params.registration}`;
+}
+
+/**
+ * Whether the AU has met the LMS's moveOn criteria. A video can be
+ * completed but has nothing to pass, so criteria requiring a pass can
+ * only be met by the LMS.
+ *
+ * @param moveOn - The criteria from LaunchData
+ * @param outcome - What the AU has reported
+ * @returns True if the criteria are met
+ */
+export function isMoveOnSatisfied(moveOn: Cmi5MoveOn, outcome: { completed: boolean; passed: boolean }): boolean {
+  switch (moveOn) {
+    case 'NotApplicable':
+      return true;
+    case 'Completed':
+      return outcome.completed;
+    case 'Passed':
+      return outcome.passed;
+    case 'CompletedAndPassed':
+      return outcome.completed && outcome.passed;
+    case 'CompletedOrPassed':
+      return outcome.completed || outcome.passed;
+  }
+}
+
+/**
+ * Trade the one-time fetch URL for an auth token
+ *
+ * @param fetchUrl - The fetch launch parameter
+ * @param fetchImpl - fetch implementation to use
+ * @returns The token, to be sent as `Basic <token>`
+ */
+export async function fetchCmi5AuthToken(fetchUrl: string, fetchImpl: typeof fetch): Promise<string> {
+  const response = await fetchImpl(fetchUrl, { method: 'POST' });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body['error-code'] || typeof body['auth-token'] !== 'string') {
+    throw new Cmi5LaunchError(
+      `Could not fetch cmi5 auth token: ${body['error-text'] || `${response.status} ${response.statusText}`}`
+    );
+  }
+  return body['auth-token'];
+}
+
+export interface Cmi5SessionOptions {
+  /** Name of the AU, used in statement activity definitions */
+  activityName?: string;
+  fetch?: typeof fetch;
+}
+
+export interface Cmi5SessionEventMap {
+  /** The LMS's moveOn criteria have just been met, so the learner can return to the LMS */
+  moveOnSatisfied: { moveOn: Cmi5MoveOn };
+}
+
+/**
+ * A launched cmi5 session. Initialized is sent on launch; Completed is
+ * sent once the tracker's completion rules are met (unless launched to
+ * browse or review, or already sent for the registration); Terminated
+ * ends the session.
+ */
+export class Cmi5Session extends TypedEventEmitter<Cmi5SessionEventMap> {
+  public readonly params: Cmi5LaunchParameters;
+  public readonly launchData: Cmi5LaunchData;
+  private client: LrsClient;
+  private activityName?: string;
+  private sessionId: string;
+  private startedAt: number = Date.now();
+  /** Whether Completed has been sent for the registration, in this or an earlier session */
+  private isCompleted: boolean = false;
+  /** Set while a Completed statement is on its way to the LRS */
+  private isCompleting: boolean = false;
+  private isTerminated: boolean = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * Use Cmi5Session.launch rather than constructing a session directly
+   */
+  constructor(
+    params: Cmi5LaunchParameters,
+    launchData: Cmi5LaunchData,
+    client: LrsClient,
+    options: Cmi5SessionOptions = {}
+  ) {
+    super();
+    this.params = params;
+    this.launchData = launchData;
+    this.client = client;
+    this.activityName = options.activityName;
+    const templateSessionId = launchData.contextTemplate.extensions?.[CMI5_SESSION_ID_EXTENSION];
+    this.sessionId = typeof templateSessionId === 'string' ? templateSessionId : createUuid();
+  }
+
+  /**
+   * Fetch the auth token, read LaunchData and the AU's state, and send Initialized
+   *
+   * @param params - Launch parameters from parseCmi5LaunchParameters
+   * @param options - AU name and an optional fetch implementation
+   * @returns The running session
+   */
+  public static async launch(params: Cmi5LaunchParameters, options: Cmi5SessionOptions = {}): Promise<Cmi5Session> {
+    const fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+    const token = await fetchCmi5AuthToken(params.fetchUrl, fetchImpl);
+    const client = new LrsClient({ endpoint: params.endpoint, auth: `Basic ${token}`, fetch: fetchImpl });
+
+    const stateParams = { activityId: params.activityId, agent: params.actor, registration: params.registration };
+    const [launchData, auState] = await Promise.all([
+      client.getState<Cmi5LaunchData>({ ...stateParams, stateId: CMI5_LAUNCH_DATA_STATE_ID }),
+      client.getState<Cmi5AuState>({ ...stateParams, stateId: CMI5_AU_STATE_ID })
+    ]);
+    if (!launchData) {
+      throw new Cmi5LaunchError('LMS.LaunchData is missing');
+    }
+
+    const session = new Cmi5Session(params, launchData, client, options);
+    session.isCompleted = !!auState?.completedAt;
+    await session.send(session.buildStatement('initialized'));
+    return session;
+  }
+
+  private buildStatement(
+    verb: 'initialized' | 'completed' | 'terminated',
+    result?: XapiStatement['result']
+  ): XapiStatement {
+    const categories = [{ id: CMI5_CATEGORY }];
+    if (verb === 'completed') {
+      categories.push({ id: CMI5_MOVEON_CATEGORY });
+    }
+    return {
+      id: createUuid(),
+      actor: this.params.actor,
+      verb: XAPI_VERBS[verb],
+      object: {
+        objectType: 'Activity',
+        id: this.params.activityId,
+        ...(this.activityName
+          ? { definition: { type: 'http://adlnet.gov/expapi/activities/lesson', name: { 'en-US': this.activityName } } }
+          : {})
+      },
+      ...(result ? { result } : {}),
+      context: applyContextTemplate({
+        registration: this.params.registration,
+        contextActivities: { category: categories },
+        extensions: { [CMI5_SESSION_ID_EXTENSION]: this.sessionId }
+      }, this.launchData.contextTemplate),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Send statements one at a time so the LMS sees them in order
+   *
+   * @param options - Set keepalive for a send that must outlive the page
+   */
+  private send(statement: XapiStatement, options: { keepalive?: boolean } = {}): Promise<void> {
+    this.pending = this.pending
+      .then(() => this.client.sendStatements([statement], options))
+      .catch(error => {
+        console.error(`Error sending cmi5 ${statement.verb.display['en-US']} statement:`, error);
+      });
+    return this.pending;
+  }
+
+  private getSessionDuration(): string {
+    return formatIsoDuration((Date.now() - this.startedAt) / 1000);
+  }
+
+  /**
+   * Send Completed the first time the tracker reports the video complete.
+   * The tracker's progress should be saved under getCmi5ProgressId, so
+   * that only completion reached within the registration counts.
+   *
+   * @param data - Progress data from the tracker
+   */
+  public handleProgressUpdate(data: VideoProgressData): void {
+    if (data.completedAt !== null) {
+      this.complete();
+    }
+  }
+
+  /**
+   * Send Completed, at most once per registration, and record in the AU's
+   * state that it was sent. Browse and Review launches must not change
+   * completion. If the LRS doesn't accept it, the next call tries again.
+   */
+  public complete(): void {
+    if (this.isCompleted || this.isCompleting || this.isTerminated || this.launchData.launchMode !== 'Normal') return;
+    this.isCompleting = true;
+    const statement = this.buildStatement('completed', { completion: true, duration: this.getSessionDuration() });
+    // Only record Completed as sent once the LRS has accepted it
+    this.pending = this.pending
+      .then(() => this.client.sendStatements([statement]))
+      .then(() => {
+        this.isCompleted = true;
+        if (this.isMoveOnSatisfied()) {
+          this.emit('moveOnSatisfied', { moveOn: this.launchData.moveOn });
+        }
+        return this.client.putState<Cmi5AuState>({
+          activityId: this.params.activityId,
+          agent: this.params.actor,
+          stateId: CMI5_AU_STATE_ID,
+          registration: this.params.registration
+        }, { completedAt: statement.timestamp });
+      })
+      .catch(error => {
+        console.error('Error reporting cmi5 completion:', error);
+      })
+      .finally(() => {
+        this.isCompleting = false;
+      });
+  }
+
+  /**
+   * Whether the registration has met the LMS's moveOn criteria, counting
+   * completion reported in earlier sessions
+   */
+  public isMoveOnSatisfied(): boolean {
+    return isMoveOnSatisfied(this.launchData.moveOn, { completed: this.isCompleted, passed: false });
+  }
+
+  /**
+   * Build an xAPI video emitter whose statements carry this session's
+   * context, so they are accepted as cmi5 allowed statements
+   *
+   * @param options - Activity and batching settings for the emitter
+   * @returns The emitter
+   */
+  public createVideoEmitter(
+    options: Omit<XapiVideoEmitterOptions, 'client' | 'actor' | 'registration' | 'contextTemplate'>
+  ): XapiVideoEmitter {
+    return new XapiVideoEmitter({
+      ...options,
+      client: this.client,
+      actor: this.params.actor,
+      registration: this.params.registration,
+      contextTemplate: applyContextTemplate(
+        { contextActivities: {}, extensions: { [CMI5_SESSION_ID_EXTENSION]: this.sessionId } },
+        this.launchData.contextTemplate
+      )
+    });
+  }
+
+  /**
+   * Send Terminated. No statements may follow it. The request is sent with
+   * keepalive, since this is usually called as the page unloads.
+   *
+   * @returns Resolves once every statement has been sent
+   */
+  public terminate(): Promise<void> {
+    if (this.isTerminated) return this.pending;
+    this.isTerminated = true;
+    return this.send(this.buildStatement('terminated', { duration: this.getSessionDuration() }), { keepalive: true });
+  }
+
+  /**
+   * Terminate and return to the LMS, if it gave a return URL
+   */
+  public async exit(): Promise<void> {
+    await this.terminate();
+    if (this.launchData.returnURL) {
+      window.location.assign(this.launchData.returnURL);
+    }
+  }
+}
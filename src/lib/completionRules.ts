@@ -0,0 +1,112 @@
+/**
+ * Completion Rules
+ *
+ * Decides when a video counts as completed, based on the merged watched
+ * intervals. A video is complete only when every configured rule is met.
+ */
+
+import type { WatchedInterval } from '@/lib/videoProgressTracker';
+
+/**
+ * Seconds of a target range that may be left uncovered and still count,
+ * to absorb the gap between the last timeupdate and the real end of a video
+ */
+const COVERAGE_TOLERANCE = 1;
+
+export interface CompletionRules {
+  /** Minimum unique coverage, as a percentage of the duration */
+  minCoveragePercent: number;
+  /** The final N seconds must be watched. 0 disables the rule. */
+  requireFinalSeconds: number;
+  /** Segments that must each be watched in full */
+  requiredSegments: WatchedInterval[];
+}
+
+export const DEFAULT_COMPLETION_RULES: CompletionRules = {
+  minCoveragePercent: 90,
+  requireFinalSeconds: 0,
+  requiredSegments: []
+};
+
+export interface CompletionStatus {
+  isComplete: boolean;
+  coveragePercent: number;
+  coverageMet: boolean;
+  finalSecondsMet: boolean;
+  /** Required segments that are not yet fully watched */
+  missingSegments: WatchedInterval[];
+}
+
+/**
+ * Measure how much of a target range is covered by merged intervals
+ *
+ * @param intervals - Merged, non-overlapping intervals
+ * @param target - The range to check
+ * @returns Covered seconds within the target
+ */
+export function getCoveredSeconds(intervals: WatchedInterval[], target: WatchedInterval): number {
+  return intervals.reduce((total, interval) => {
+    const overlap = Math.min(interval.end, target.end) - Math.max(interval.start, target.start);
+    return total + Math.max(0, overlap);
+  }, 0);
+}
+
+/**
+ * Whether a target range is fully covered, within tolerance
+ *
+ * @param intervals - Merged, non-overlapping intervals
+ * @param target - The range to check
+ * @returns True if at most COVERAGE_TOLERANCE seconds are unwatched
+ */
+export function isRangeCovered(intervals: WatchedInterval[], target: WatchedInterval): boolean {
+  const length = target.end - target.start;
+  return length - getCoveredSeconds(intervals, target) <= COVERAGE_TOLERANCE;
+}
+
+/**
+ * Evaluate completion rules against watched intervals
+ *
+ * @param intervals - Merged, non-overlapping intervals
+ * @param duration - Video duration in seconds
+ * @param rules - The rules to apply
+ * @returns Which rules are met and whether the video is complete
+ */
+export function evaluateCompletion(
+  intervals: WatchedInterval[],
+  duration: number,
+  rules: CompletionRules
+): CompletionStatus {
+  if (duration <= 0) {
+    return {
+      isComplete: false,
+      coveragePercent: 0,
+      coverageMet: false,
+      finalSecondsMet: false,
+      missingSegments: [...rules.requiredSegments]
+    };
+  }
+
+  const coveragePercent = Math.min(
+    (getCoveredSeconds(intervals, { start: 0, end: duration }) / duration) * 100,
+    100
+  );
+  const coverageMet = coveragePercent >= rules.minCoveragePercent;
+
+  const finalSecondsMet = rules.requireFinalSeconds <= 0 || isRangeCovered(intervals, {
+    start: Math.max(0, duration - rules.requireFinalSeconds),
+    end: duration
+  });
+
+  const missingSegments = rules.requiredSegments.filter(segment => !isRangeCovered(intervals, {
+    start: Math.max(0, segment.start),
+    end: Math.min(duration, segment.end)
+  }));
+
+  return {
+    isComplete: coverageMet && finalSecondsMet && missingSegments.length === 0,
+    coveragePercent,
+    coverageMet,
+    finalSecondsMet,
+    missingSegments
+  };
+}
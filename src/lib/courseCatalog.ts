@@ -0,0 +1,323 @@
+/**
+ * Course Catalog
+ *
+ * Courses, their modules and lectures, described by a JSON manifest:
+ *
+ * ```json
+ * {
+ *   "courses": [{
+ *     "id": "smart-learning",
+ *     "title": "Smart Learning",
+ *     "modules": [{
+ *       "id": "foundations",
+ *       "title": "Foundations",
+ *       "lectures": [{
+ *         "id": "intro",
+ *         "title": "Introduction",
+ *         "videoId": "intro-to-smart-learning",
+ *         "url": "https://example.com/intro.mp4",
+ *         "chapters": [{ "id": "welcome", "title": "Welcome", "start": 0, "end": 60 }]
+ *       }]
+ *     }]
+ *   }]
+ * }
+ * ```
+ *
+ * A lecture's `videoId` is what its progress is saved under, so keep it
+ * stable when a lecture is renamed or moved.
+ */
+
+import type { Chapter } from '@/lib/chapters';
+import type { CourseModule, CourseVideo } from '@/lib/courseProgress';
+
+export interface Lecture {
+  id: string;
+  title: string;
+  description?: string;
+  /** ID the lecture's progress is saved under */
+  videoId: string;
+  /** A media file or stream, or a YouTube or Vimeo URL */
+  url: string;
+  /** MIME type or source type ('mp4', 'hls', 'dash'); detected from the URL when omitted */
+  sourceType?: string;
+  chapters?: Chapter[];
+  /** URL of a WebVTT chapters track */
+  chaptersTrack?: string;
+  /** How much the lecture counts toward course progress. Defaults to 1. */
+  weight?: number;
+  /** Whether the lecture must be completed for the course to be. Defaults to true. */
+  required?: boolean;
+}
+
+export interface CatalogModule {
+  id: string;
+  title: string;
+  lectures: Lecture[];
+}
+
+export interface Course {
+  id: string;
+  title: string;
+  description?: string;
+  modules: CatalogModule[];
+}
+
+export interface CourseManifest {
+  courses: Course[];
+}
+
+export interface LectureLocation {
+  course: Course;
+  module: CatalogModule;
+  lecture: Lecture;
+  previous: Lecture | null;
+  next: Lecture | null;
+}
+
+export class CourseManifestError extends Error {
+  public readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'CourseManifestError';
+    this.issues = issues;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+const isValidNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check that every item in a list has a unique, non-empty string ID
+ */
+function checkIds(items: unknown[], label: string, issues: string[]): void {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    const id = isRecord(item) ? item.id : undefined;
+    if (!isNonEmptyString(id)) {
+      issues.push(`${label} ${index} has no id`);
+    } else if (seen.has(id)) {
+      issues.push(`${label} "${id}" appears more than once`);
+    } else {
+      seen.add(id);
+    }
+  });
+}
+
+function parseChapters(value: unknown, path: string, issues: string[]): Chapter[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push(`${path} chapters must be a list`);
+    return undefined;
+  }
+  checkIds(value, `${path} chapter`, issues);
+  return value.filter(isRecord).map((chapter, index) => {
+    if (!isValidNumber(chapter.start) || !isValidNumber(chapter.end) || chapter.start > chapter.end) {
+      issues.push(`${path} chapter ${index} has an invalid start or end`);
+    }
+    return {
+      id: String(chapter.id),
+      title: optionalString(chapter.title) ?? String(chapter.id),
+      start: Number(chapter.start),
+      end: Number(chapter.end),
+      required: chapter.required === true
+    };
+  });
+}
+
+function parseLecture(value: Record<string, unknown>, path: string, issues: string[]): Lecture {
+  if (!isNonEmptyString(value.title)) issues.push(`${path} has no title`);
+  if (!isNonEmptyString(value.videoId)) issues.push(`${path} has no videoId`);
+  if (!isNonEmptyString(value.url)) issues.push(`${path} has no url`);
+  if (value.weight !== undefined && (!isValidNumber(value.weight) || value.weight < 0)) {
+    issues.push(`${path} has an invalid weight`);
+  }
+
+  return {
+    id: String(value.id),
+    title: String(value.title ?? ''),
+    description: optionalString(value.description),
+    videoId: String(value.videoId ?? ''),
+    url: String(value.url ?? ''),
+    sourceType: optionalString(value.sourceType),
+    chapters: parseChapters(value.chapters, path, issues),
+    chaptersTrack: optionalString(value.chaptersTrack),
+    weight: isValidNumber(value.weight) ? value.weight : undefined,
+    required: typeof value.required === 'boolean' ? value.required : undefined
+  };
+}
+
+/**
+ * Validate a course manifest
+ *
+ * @param manifest - Parsed JSON of the manifest
+ * @returns The manifest's courses
+ * @throws CourseManifestError listing every problem found
+ */
+export function parseCourseManifest(manifest: unknown): CourseManifest {
+  if (!isRecord(manifest) || !Array.isArray(manifest.courses)) {
+    throw new CourseManifestError('Course manifest has no courses list');
+  }
+
+  const issues: string[] = [];
+  const videoIds = new Set<string>();
+  checkIds(manifest.courses, 'course', issues);
+
+  const courses = manifest.courses.filter(isRecord).map(course => {
+    const coursePath = `course "${String(course.id)}"`;
+    if (!isNonEmptyString(course.title)) issues.push(`${coursePath} has no title`);
+    if (!Array.isArray(course.modules)) {
+      issues.push(`${coursePath} has no modules list`);
+    }
+    const modules = Array.isArray(course.modules) ? course.modules : [];
+    checkIds(modules, `${coursePath} module`, issues);
+
+    // Lecture IDs are unique within a course, since routes don't include the module
+    const lectureIds: unknown[] = [];
+    const parsedModules = modules.filter(isRecord).map(module => {
+      const modulePath = `${coursePath} module "${String(module.id)}"`;
+      if (!Array.isArray(module.lectures)) {
+        issues.push(`${modulePath} has no lectures list`);
+      }
+      const lectures = Array.isArray(module.lectures) ? module.lectures : [];
+      lectureIds.push(...lectures);
+
+      return {
+        id: String(module.id),
+        title: optionalString(module.title) ?? String(module.id),
+        lectures: lectures.filter(isRecord).map(lecture => {
+          const parsed = parseLecture(lecture, `${coursePath} lecture "${String(lecture.id)}"`, issues);
+          // Lectures sharing a videoId would share their progress
+          if (parsed.videoId && videoIds.has(parsed.videoId)) {
+            issues.push(`videoId "${parsed.videoId}" is used by more than one lecture`);
+          }
+          videoIds.add(parsed.videoId);
+          return parsed;
+        })
+      };
+    });
+    checkIds(lectureIds, `${coursePath} lecture`, issues);
+
+    return {
+      id: String(course.id),
+      title: String(course.title ?? ''),
+      description: optionalString(course.description),
+      modules: parsedModules
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new CourseManifestError('Invalid course manifest', issues);
+  }
+  return { courses };
+}
+
+/**
+ * Download and validate a course manifest
+ *
+ * @param url - Where the manifest is served
+ * @param fetchImpl - fetch implementation to use
+ * @returns The manifest's courses
+ */
+export async function fetchCourseManifest(url: string, fetchImpl: typeof fetch = fetch): Promise<CourseManifest> {
+  const response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new CourseManifestError(`Course manifest request failed with status ${response.status}`);
+  }
+  return parseCourseManifest(await response.json());
+}
+
+/**
+ * All of a course's lectures, in course order
+ *
+ * @param course - The course
+ * @returns Its lectures, module by module
+ */
+export function getCourseLectures(course: Course): Lecture[] {
+  return course.modules.flatMap(module => module.lectures);
+}
+
+/**
+ * Find a lecture and its neighbours in course order
+ *
+ * @param manifest - The course manifest
+ * @param courseId - The course's ID
+ * @param lectureId - The lecture's ID within the course
+ * @returns The lecture with its course and module, or null if there is no such lecture
+ */
+export function findLecture(manifest: CourseManifest, courseId: string, lectureId: string): LectureLocation | null {
+  const course = manifest.courses.find(candidate => candidate.id === courseId);
+  if (!course) return null;
+
+  const lectures = getCourseLectures(course);
+  const index = lectures.findIndex(lecture => lecture.id === lectureId);
+  if (index === -1) return null;
+
+  const lecture = lectures[index];
+  return {
+    course,
+    module: course.modules.find(module => module.lectures.includes(lecture)),
+    lecture,
+    previous: lectures[index - 1] ?? null,
+    next: lectures[index + 1] ?? null
+  };
+}
+
+/**
+ * Find the lecture saving progress under a video ID
+ *
+ * @param manifest - The course manifest
+ * @param videoId - The video ID
+ * @returns The lecture's location, or null if no lecture uses the ID
+ */
+export function findLectureByVideoId(manifest: CourseManifest, videoId: string): LectureLocation | null {
+  for (const course of manifest.courses) {
+    const lecture = getCourseLectures(course).find(candidate => candidate.videoId === videoId);
+    if (lecture) return findLecture(manifest, course.id, lecture.id);
+  }
+  return null;
+}
+
+/**
+ * Path of a lecture's page
+ *
+ * @param courseId - The course's ID
+ * @param lectureId - The lecture's ID
+ * @param startTime - Optional position in seconds for the player to open at
+ * @returns The route path
+ */
+export function getLecturePath(courseId: string, lectureId: string, startTime?: number): string {
+  const path = `/courses/${encodeURIComponent(courseId)}/lectures/${encodeURIComponent(lectureId)}`;
+  return startTime !== undefined ? `${path}?t=${Math.floor(startTime)}` : path;
+}
+
+/**
+ * A course's lectures and modules in the shape course progress expects
+ *
+ * @param course - The course
+ * @returns Videos and modules for useCourseProgress or CourseProgressTracker
+ */
+export function toCourseProgressInput(course: Course): { videos: CourseVideo[]; modules: CourseModule[] } {
+  return {
+    videos: course.modules.flatMap(module => module.lectures.map(lecture => ({
+      videoId: lecture.videoId,
+      title: lecture.title,
+      moduleId: module.id,
+      weight: lecture.weight,
+      required: lecture.required
+    }))),
+    modules: course.modules.map(module => ({ id: module.id, title: module.title }))
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * Course Progress
+ *
+ * Aggregates per-video progress into course- and module-level progress.
+ * A course is an ordered list of videos, each with a weight (how much it
+ * counts toward the course) and optionally the module it belongs to.
+ */
+
+import type { VideoProgressData } from '@/lib/videoProgressTracker';
+import { AnyProgressStore, LocalStorageProgressStore, StoredProgress, isPromiseLike } from '@/lib/progressStore';
+import { parseProgressPayload } from '@/lib/progressSchema';
+import { ProgressSync } from '@/lib/progressSync';
+import { TypedEventEmitter } from '@/lib/typedEventEmitter';
+
+export interface CourseVideo {
+  videoId: string;
+  title?: string;
+  /** Module (section) the video belongs to */
+  moduleId?: string;
+  /** How much the video counts toward course progress. Defaults to 1. */
+  weight?: number;
+  /** Whether the video must be completed for the course to be. Defaults to true. */
+  required?: boolean;
+}
+
+export interface CourseModule {
+  id: string;
+  title: string;
+}
+
+export interface CourseCompletionRule {
+  /** Weighted progress (0-100) the course must also reach. Defaults to 0. */
+  minProgress: number;
+}
+
+export const DEFAULT_COURSE_COMPLETION_RULE: CourseCompletionRule = {
+  minProgress: 0
+};
+
+export interface CourseVideoProgress {
+  videoId: string;
+  title?: string;
+  moduleId?: string;
+  weight: number;
+  required: boolean;
+  /** Progress of the video (0-100) */
+  progress: number;
+  isComplete: boolean;
+  completedAt: string | null;
+  lastPosition: number;
+  updatedAt: string | null;
+}
+
+export interface ModuleProgress {
+  moduleId: string;
+  title: string;
+  /** Weighted progress of the module's videos (0-100) */
+  totalProgress: number;
+  isComplete: boolean;
+  completedCount: number;
+  videoCount: number;
+}
+
+export interface CourseProgress {
+  courseId: string;
+  /** Weighted progress across all videos (0-100) */
+  totalProgress: number;
+  isComplete: boolean;
+  /** When the last required video was completed, if the course is complete */
+  completedAt: string | null;
+  completedCount: number;
+  videoCount: number;
+  videos: CourseVideoProgress[];
+  modules: ModuleProgress[];
+  /** The first video that isn't complete yet, in course order */
+  nextVideoId: string | null;
+}
+
+/**
+ * Weighted average progress of some videos
+ */
+function weightedProgress(videos: CourseVideoProgress[]): number {
+  const totalWeight = videos.reduce((total, video) => total + video.weight, 0);
+  if (totalWeight <= 0) return 0;
+  return videos.reduce((total, video) => total + video.progress * video.weight, 0) / totalWeight;
+}
+
+/**
+ * Whether every required video is complete. A group with no required
+ * videos is complete once all of its videos are.
+ */
+function allRequiredComplete(videos: CourseVideoProgress[]): boolean {
+  const required = videos.filter(video => video.required);
+  return (required.length > 0 ? required : videos).every(video => video.isComplete);
+}
+
+/**
+ * Aggregate per-video progress into course progress
+ *
+ * @param courseId - The course
+ * @param videos - The course's videos, in order
+ * @param progressById - Saved progress by video ID; missing videos count as unwatched
+ * @param modules - Module titles, in order; modules used by videos but not listed are appended
+ * @param rule - What else the course needs besides its required videos
+ * @returns Course progress
+ */
+export function aggregateCourseProgress(
+  courseId: string,
+  videos: CourseVideo[],
+  progressById: Record<string, VideoProgressData | undefined>,
+  modules: CourseModule[] = [],
+  rule: CourseCompletionRule = DEFAULT_COURSE_COMPLETION_RULE
+): CourseProgress {
+  const videoProgress: CourseVideoProgress[] = videos.map(video => {
+    const data = progressById[video.videoId];
+    return {
+      videoId: video.videoId,
+      title: video.title,
+      moduleId: video.moduleId,
+      weight: Math.max(0, video.weight ?? 1),
+      required: video.required ?? true,
+      progress: data ? Math.min(100, Math.max(0, data.totalProgress)) : 0,
+      isComplete: !!data?.completedAt,
+      completedAt: data?.completedAt ?? null,
+      lastPosition: data?.lastPosition ?? 0,
+      updatedAt: data?.updatedAt ?? null
+    };
+  });
+
+  const moduleList = [...modules];
+  videoProgress.forEach(video => {
+    if (video.moduleId && !moduleList.some(module => module.id === video.moduleId)) {
+      moduleList.push({ id: video.moduleId, title: video.moduleId });
+    }
+  });
+  const moduleProgress: ModuleProgress[] = moduleList.map(module => {
+    const inModule = videoProgress.filter(video => video.moduleId === module.id);
+    return {
+      moduleId: module.id,
+      title: module.title,
+      totalProgress: weightedProgress(inModule),
+      isComplete: inModule.length > 0 && allRequiredComplete(inModule),
+      completedCount: inModule.filter(video => video.isComplete).length,
+      videoCount: inModule.length
+    };
+  });
+
+  const totalProgress = weightedProgress(videoProgress);
+  const isComplete = videoProgress.length > 0 &&
+    allRequiredComplete(videoProgress) &&
+    totalProgress >= rule.minProgress;
+  const completionTimes = videoProgress
+    .filter(video => video.required && video.completedAt)
+    .map(video => video.completedAt as string)
+    .sort();
+
+  return {
+    courseId,
+    totalProgress,
+    isComplete,
+    completedAt: isComplete ? completionTimes[completionTimes.length - 1] ?? null : null,
+    completedCount: videoProgress.filter(video => video.isComplete).length,
+    videoCount: videoProgress.length,
+    videos: videoProgress,
+    modules: moduleProgress,
+    nextVideoId: videoProgress.find(video => !video.isComplete)?.videoId ?? null
+  };
+}
+
+export interface CourseTrackerEventMap {
+  /** Any video's progress changed */
+  progress: CourseProgress;
+  /** The course became complete */
+  complete: CourseProgress;
+}
+
+export interface CourseProgressTrackerOptions {
+  /** Where video progress is read from. Defaults to localStorage. */
+  store?: AnyProgressStore;
+  /** Delivers saves from video trackers as they happen, e.g. getSharedProgressSync() */
+  sync?: ProgressSync;
+  modules?: CourseModule[];
+  completionRule?: Partial<CourseCompletionRule>;
+}
+
+/**
+ * Keeps course progress up to date from the progress store and live saves
+ */
+export class CourseProgressTracker extends TypedEventEmitter<CourseTrackerEventMap> {
+  private courseId: string;
+  private videos: CourseVideo[];
+  private modules: CourseModule[];
+  private completionRule: CourseCompletionRule;
+  private store: AnyProgressStore;
+  private progressById: Record<string, VideoProgressData | undefined> = {};
+  private unsubscribers: (() => void)[] = [];
+  private wasComplete: boolean = false;
+
+  /**
+   * Creates a course tracker. Call load to read saved progress.
+   *
+   * @param courseId - Unique identifier for the course
+   * @param videos - The course's videos, in order
+   * @param options - Store, live sync, modules and completion rule
+   */
+  constructor(courseId: string, videos: CourseVideo[], options: CourseProgressTrackerOptions = {}) {
+    super();
+    this.courseId = courseId;
+    this.videos = [...videos];
+    this.modules = options.modules || [];
+    this.completionRule = { ...DEFAULT_COURSE_COMPLETION_RULE, ...options.completionRule };
+    this.store = options.store || new LocalStorageProgressStore();
+
+    if (options.sync) {
+      this.videos.forEach(video => {
+        this.unsubscribers.push(options.sync.subscribe(video.videoId, message => {
+          try {
+            this.update(parseProgressPayload(message.data, { videoId: video.videoId }));
+          } catch (error) {
+            console.error('Error reading synced course progress:', error);
+          }
+        }));
+      });
+    }
+  }
+
+  /**
+   * Read every video's saved progress from the store
+   *
+   * @returns Resolves once all videos have been read
+   */
+  public async load(): Promise<void> {
+    await Promise.all(this.videos.map(async video => {
+      try {
+        const result = this.store.load(video.videoId);
+        const saved = isPromiseLike<StoredProgress | null>(result) ? await result : result;
+        if (saved) {
+          this.setVideoProgress(parseProgressPayload(saved, { videoId: video.videoId }));
+        }
+      } catch (error) {
+        console.error('Error loading course progress:', error);
+      }
+    }));
+    // A course that was already complete isn't newly completed by loading it
+    this.notify(false);
+  }
+
+  /**
+   * Record new progress for one of the course's videos, e.g. from a
+   * tracker's progress event
+   *
+   * @param data - The video's progress
+   */
+  public update(data: VideoProgressData): void {
+    if (!this.videos.some(video => video.videoId === data.videoId)) return;
+    this.setVideoProgress(data);
+    this.notify(true);
+  }
+
+  /**
+   * Keep whichever copy of a video's progress was updated last, so a slow
+   * load can't overwrite a live save
+   */
+  private setVideoProgress(data: VideoProgressData): void {
+    const current = this.progressById[data.videoId];
+    if (!current || Date.parse(data.updatedAt) >= Date.parse(current.updatedAt)) {
+      this.progressById[data.videoId] = data;
+    }
+  }
+
+  private notify(canComplete: boolean): void {
+    const progress = this.getProgress();
+    this.emit('progress', progress);
+    if (canComplete && progress.isComplete && !this.wasComplete) {
+      this.emit('complete', progress);
+    }
+    this.wasComplete = progress.isComplete;
+  }
+
+  /**
+   * Get the current course progress
+   *
+   * @returns Course, module and per-video progress
+   */
+  public getProgress(): CourseProgress {
+    return aggregateCourseProgress(
+      this.courseId,
+      this.videos,
+      this.progressById,
+      this.modules,
+      this.completionRule
+    );
+  }
+
+  /**
+   * Stop listening for live saves. Call when the tracker is no longer used.
+   */
+  public destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.removeAllListeners();
+  }
+}
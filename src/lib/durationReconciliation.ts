@@ -0,0 +1,133 @@
+/**
+ * Duration Reconciliation
+ *
+ * Saved intervals are positions on the timeline of the video as it was
+ * when they were watched. If the video is re-encoded or re-uploaded with a
+ * different length, those positions no longer line up with the new file.
+ * These helpers map saved positions from the old timeline onto the new one.
+ */
+
+import type { WatchedInterval } from '@/lib/videoProgressTracker';
+
+/**
+ * How saved positions are carried over to a video whose duration changed:
+ * - 'rescale': positions are scaled by newDuration / previousDuration
+ * - 'clamp': positions are kept and cut off at the new end
+ * - 'reset': saved positions are discarded
+ * - 'align': positions are mapped through a time-alignment table
+ */
+export type DurationMismatchStrategy = 'rescale' | 'clamp' | 'reset' | 'align';
+
+/**
+ * One anchor of a time-alignment table: the moment at `from` seconds in the
+ * old video is at `to` seconds in the new one. Positions between anchors
+ * are interpolated linearly; a span whose anchors map to the same `to`
+ * was cut from the new video.
+ */
+export interface TimeAlignmentPoint {
+  from: number;
+  to: number;
+}
+
+export interface DurationReconciliation {
+  strategy: DurationMismatchStrategy;
+  /** Seconds the duration may change by before it counts as a different encode */
+  tolerance: number;
+  /** Anchors for the 'align' strategy */
+  alignment: TimeAlignmentPoint[];
+}
+
+export const DEFAULT_DURATION_RECONCILIATION: DurationReconciliation = {
+  strategy: 'rescale',
+  tolerance: 1,
+  alignment: []
+};
+
+/**
+ * Reported when saved progress was recorded against a different duration
+ */
+export interface DurationMismatchEvent {
+  videoId: string;
+  previousDuration: number;
+  newDuration: number;
+  strategy: DurationMismatchStrategy;
+  /** Progress percentage against the old duration */
+  previousProgress: number;
+  /** Progress percentage after reconciliation */
+  newProgress: number;
+}
+
+/**
+ * Intervals shorter than this after mapping are dropped
+ */
+const MIN_INTERVAL_SECONDS = 0.01;
+
+/**
+ * Whether two durations describe different encodes of a video
+ *
+ * @param previous - Duration the progress was recorded against
+ * @param current - Duration of the video now
+ * @param tolerance - Allowed difference in seconds
+ * @returns True if both are known and differ by more than the tolerance
+ */
+export function hasDurationMismatch(previous: number, current: number, tolerance: number): boolean {
+  return previous > 0 && current > 0 && Math.abs(previous - current) > tolerance;
+}
+
+/**
+ * Build a function mapping old positions onto the new timeline
+ *
+ * @param previous - Duration the progress was recorded against
+ * @param current - Duration of the video now
+ * @param policy - The reconciliation policy
+ * @returns Mapping from an old position to a new one, or null if positions are discarded
+ */
+export function createTimeMapping(
+  previous: number,
+  current: number,
+  policy: DurationReconciliation
+): ((time: number) => number) | null {
+  const clampToVideo = (time: number) => Math.max(0, Math.min(time, current));
+
+  switch (policy.strategy) {
+    case 'reset':
+      return null;
+    case 'clamp':
+      return clampToVideo;
+    case 'align': {
+      if (policy.alignment.length === 0) break;
+
+      // Anchor both ends so every position falls between two points
+      const points = [{ from: 0, to: 0 }, ...policy.alignment, { from: previous, to: current }]
+        .filter(point => point.from >= 0 && point.from <= previous)
+        .sort((a, b) => a.from - b.from);
+
+      return (time: number) => {
+        const upper = points.findIndex(point => point.from >= time);
+        if (upper <= 0) {
+          return clampToVideo(upper === 0 ? points[0].to : current);
+        }
+        const a = points[upper - 1];
+        const b = points[upper];
+        const fraction = b.from > a.from ? (time - a.from) / (b.from - a.from) : 0;
+        return clampToVideo(a.to + (b.to - a.to) * fraction);
+      };
+    }
+  }
+
+  const scale = current / previous;
+  return (time: number) => clampToVideo(time * scale);
+}
+
+/**
+ * Map intervals onto the new timeline, dropping any that collapse
+ *
+ * @param intervals - Intervals on the old timeline
+ * @param map - Mapping from createTimeMapping
+ * @returns Intervals on the new timeline
+ */
+export function remapIntervals<T extends WatchedInterval>(intervals: T[], map: (time: number) => number): T[] {
+  return intervals
+    .map(interval => ({ ...interval, start: map(interval.start), end: map(interval.end) }))
+    .filter(interval => interval.end - interval.start >= MIN_INTERVAL_SECONDS);
+}
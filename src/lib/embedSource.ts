@@ -0,0 +1,52 @@
+/**
+ * Embed Source
+ *
+ * Recognises YouTube and Vimeo page URLs, which play in the provider's
+ * embedded player instead of a <video> element.
+ */
+
+export type EmbedProvider = 'youtube' | 'vimeo';
+
+export interface EmbedSource {
+  provider: EmbedProvider;
+  /** The provider's ID for the video */
+  id: string;
+}
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+const YOUTUBE_PATH_PREFIXES = ['/embed/', '/shorts/', '/live/', '/v/'];
+const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/;
+const VIMEO_HOSTS = ['vimeo.com', 'www.vimeo.com', 'player.vimeo.com'];
+
+/**
+ * Work out whether a URL is a YouTube or Vimeo video
+ *
+ * @param url - A watch, share or embed URL
+ * @returns The provider and video ID, or null for anything else (e.g. a media file)
+ */
+export function parseEmbedSource(url: string): EmbedSource | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase();
+  const segments = parsed.pathname.split('/').filter(Boolean);
+
+  if (host === 'youtu.be') {
+    return YOUTUBE_ID_PATTERN.test(segments[0] ?? '') ? { provider: 'youtube', id: segments[0] } : null;
+  }
+  if (YOUTUBE_HOSTS.includes(host)) {
+    const id = parsed.pathname === '/watch'
+      ? parsed.searchParams.get('v')
+      : YOUTUBE_PATH_PREFIXES.some(prefix => parsed.pathname.startsWith(prefix)) ? segments[1] : null;
+    return id && YOUTUBE_ID_PATTERN.test(id) ? { provider: 'youtube', id } : null;
+  }
+  if (VIMEO_HOSTS.includes(host)) {
+    // vimeo.com/123, vimeo.com/channels/staffpicks/123 and player.vimeo.com/video/123
+    const id = segments.find(segment => /^\d+$/.test(segment));
+    return id ? { provider: 'vimeo', id } : null;
+  }
+  return null;
+}
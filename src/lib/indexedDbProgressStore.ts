@@ -0,0 +1,216 @@
+/**
+ * IndexedDB Progress Store
+ *
+ * Persists video progress in IndexedDB, which has far more headroom than
+ * localStorage for learners with large libraries. Alongside the per-video
+ * record it keeps an append-only session log of every interval as it was
+ * watched, so dashboards can show history without scanning every key.
+ */
+
+import type { AsyncProgressStore, SessionLogEntry, StoredProgress } from '@/lib/progressStore';
+
+const DEFAULT_DB_NAME = 'true-view-progress';
+const DB_VERSION = 2;
+const PROGRESS_STORE = 'progress';
+const SESSIONS_STORE = 'sessions';
+
+/**
+ * A per-video record as stored in the `progress` object store
+ */
+export type ProgressRecord = StoredProgress;
+
+/**
+ * A session log entry as stored in the `sessions` object store
+ */
+export interface SessionRecord extends SessionLogEntry {
+  id: number;
+}
+
+/**
+ * Wraps an IDBRequest in a promise
+ *
+ * @param request - The request to wait for
+ * @returns The request result
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Creates or upgrades the object stores and indexes
+ *
+ * @param db - The database being upgraded
+ * @param tx - The version change transaction
+ * @param oldVersion - The version the database is upgrading from
+ */
+function upgradeDatabase(db: IDBDatabase, tx: IDBTransaction, oldVersion: number): void {
+  if (oldVersion < 1) {
+    db.createObjectStore(PROGRESS_STORE, { keyPath: 'videoId' });
+  }
+  if (oldVersion < 2) {
+    tx.objectStore(PROGRESS_STORE).createIndex('updatedAt', 'updatedAt');
+
+    const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id', autoIncrement: true });
+    sessions.createIndex('videoId', 'videoId');
+    sessions.createIndex('addedAt', 'addedAt');
+  }
+}
+
+export class IndexedDBProgressStore implements AsyncProgressStore {
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param dbName - Name of the IndexedDB database to use
+   */
+  constructor(dbName: string = DEFAULT_DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  /**
+   * Opens (and if needed creates) the database, reusing the connection
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          upgradeDatabase(request.result, request.transaction, event.oldVersion);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  public async load(videoId: string): Promise<StoredProgress | null> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(PROGRESS_STORE, 'readonly');
+    const record = await promisifyRequest<ProgressRecord | undefined>(
+      tx.objectStore(PROGRESS_STORE).get(videoId)
+    );
+    return record || null;
+  }
+
+  public async save(videoId: string, data: StoredProgress): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(PROGRESS_STORE, 'readwrite');
+    const record: ProgressRecord = {
+      ...data,
+      videoId,
+      updatedAt: data.updatedAt || new Date().toISOString()
+    };
+    await promisifyRequest(tx.objectStore(PROGRESS_STORE).put(record));
+  }
+
+  /**
+   * Removes the per-video record. The session log is append-only and kept.
+   */
+  public async remove(videoId: string): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(PROGRESS_STORE, 'readwrite');
+    await promisifyRequest(tx.objectStore(PROGRESS_STORE).delete(videoId));
+  }
+
+  public async appendSession(entry: SessionLogEntry): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    await promisifyRequest(tx.objectStore(SESSIONS_STORE).add({ ...entry }));
+  }
+
+  /**
+   * Get every stored per-video record
+   *
+   * @returns All progress records, in videoId order
+   */
+  public async getAllProgress(): Promise<ProgressRecord[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(PROGRESS_STORE, 'readonly');
+    return promisifyRequest<ProgressRecord[]>(tx.objectStore(PROGRESS_STORE).getAll());
+  }
+
+  /**
+   * Get the most recently updated videos using the `updatedAt` index
+   *
+   * @param limit - Maximum number of records to return
+   * @returns Progress records, newest first
+   */
+  public async getRecentlyWatched(limit: number = 10): Promise<ProgressRecord[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(PROGRESS_STORE, 'readonly');
+    const index = tx.objectStore(PROGRESS_STORE).index('updatedAt');
+
+    return new Promise((resolve, reject) => {
+      const results: ProgressRecord[] = [];
+      const request = index.openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && results.length < limit) {
+          results.push(cursor.value);
+          cursor.continue();
+        } else {
+          resolve(results);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get the session log for a video using the `videoId` index
+   *
+   * @param videoId - The video to fetch history for
+   * @returns Session entries in the order they were added
+   */
+  public async getSessionLog(videoId: string): Promise<SessionRecord[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    const index = tx.objectStore(SESSIONS_STORE).index('videoId');
+    const records = await promisifyRequest<SessionRecord[]>(index.getAll(videoId));
+    return records.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Move a video's session log to another video ID, keeping each entry's
+   * place in the log
+   *
+   * @param fromId - The video ID the log is kept under
+   * @param toId - The video ID to keep it under instead
+   */
+  public async moveSessionLog(fromId: string, toId: string): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    const index = tx.objectStore(SESSIONS_STORE).index('videoId');
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(IDBKeyRange.only(fromId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.update({ ...cursor.value, videoId: toId });
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Close the underlying database connection
+   */
+  public close(): void {
+    if (this.dbPromise) {
+      this.dbPromise.then(db => db.close()).catch(() => undefined);
+      this.dbPromise = null;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Learner Dashboard
+ *
+ * Summaries of everything a learner has watched, built from a progress
+ * store: per-video progress, unique minutes watched per day (from the
+ * store's session log) and the videos worth resuming.
+ */
+
+import type { VideoProgressData, WatchedInterval } from '@/lib/videoProgressTracker';
+import { AnyProgressStore, SessionLogEntry, StoredProgress, isPromiseLike } from '@/lib/progressStore';
+import { parseProgressPayload } from '@/lib/progressSchema';
+import { subtractIntervals } from '@/lib/offlineSync';
+
+export interface VideoSummary {
+  videoId: string;
+  /** Progress of the video (0-100) */
+  progress: number;
+  isComplete: boolean;
+  completedAt: string | null;
+  /** Where the learner left off, in seconds */
+  lastPosition: number;
+  /** When progress was last saved */
+  lastWatchedAt: string;
+  /** Duration in seconds, 0 if unknown */
+  duration: number;
+}
+
+export interface DailyMinutes {
+  /** Local calendar day, as YYYY-MM-DD */
+  date: string;
+  /** Minutes of video watched for the first time that day */
+  minutes: number;
+}
+
+export interface DashboardData {
+  videos: VideoSummary[];
+  sessions: SessionLogEntry[];
+}
+
+/**
+ * Union intervals into a sorted, non-overlapping list
+ */
+function unionIntervals(intervals: WatchedInterval[]): WatchedInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: WatchedInterval[] = [];
+  sorted.forEach(interval => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Format a date as its local calendar day
+ *
+ * @param date - The date
+ * @returns The day as YYYY-MM-DD
+ */
+export function toLocalDay(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Summarize stored progress records, skipping any that can't be read
+ *
+ * @param records - Progress records from a store
+ * @returns One summary per video, most recently watched first
+ */
+export function summarizeVideos(records: StoredProgress[]): VideoSummary[] {
+  const summaries: VideoSummary[] = [];
+  records.forEach(record => {
+    let data: VideoProgressData;
+    try {
+      data = parseProgressPayload(record, { videoId: record.videoId });
+    } catch (error) {
+      console.error('Error reading stored progress:', error);
+      return;
+    }
+    summaries.push({
+      videoId: data.videoId,
+      progress: Math.min(100, Math.max(0, data.totalProgress)),
+      isComplete: !!data.completedAt,
+      completedAt: data.completedAt,
+      lastPosition: data.lastPosition,
+      lastWatchedAt: data.updatedAt,
+      duration: data.trackedDuration
+    });
+  });
+  return summaries.sort((a, b) => Date.parse(b.lastWatchedAt) - Date.parse(a.lastWatchedAt));
+}
+
+/**
+ * Count the minutes watched for the first time on each of the last few
+ * days. Re-watching a part of a video already seen doesn't count again.
+ *
+ * @param sessions - Session log entries for any number of videos
+ * @param days - How many days to include, ending today
+ * @param now - The current time
+ * @returns One entry per day, oldest first, including days with no viewing
+ */
+export function computeDailyUniqueMinutes(
+  sessions: SessionLogEntry[],
+  days: number = 14,
+  now: Date = new Date()
+): DailyMinutes[] {
+  const secondsByDay = new Map<string, number>();
+  const seenByVideo = new Map<string, WatchedInterval[]>();
+
+  [...sessions]
+    .sort((a, b) => Date.parse(a.addedAt) - Date.parse(b.addedAt))
+    .forEach(entry => {
+      if (!(entry.end > entry.start)) return;
+      const seen = seenByVideo.get(entry.videoId) || [];
+      const fresh = subtractIntervals([{ start: entry.start, end: entry.end }], seen);
+      const freshSeconds = fresh.reduce((total, interval) => total + (interval.end - interval.start), 0);
+      if (freshSeconds > 0) {
+        const day = toLocalDay(new Date(entry.addedAt));
+        secondsByDay.set(day, (secondsByDay.get(day) || 0) + freshSeconds);
+        seenByVideo.set(entry.videoId, unionIntervals([...seen, ...fresh]));
+      }
+    });
+
+  const result: DailyMinutes[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset);
+    const day = toLocalDay(date);
+    result.push({ date: day, minutes: (secondsByDay.get(day) || 0) / 60 });
+  }
+  return result;
+}
+
+/**
+ * Videos the learner started but hasn't finished
+ *
+ * @param videos - Video summaries
+ * @param limit - Maximum number of videos to return
+ * @returns Unfinished videos with a resume point, most recently watched first
+ */
+export function getContinueWatching(videos: VideoSummary[], limit: number = 4): VideoSummary[] {
+  return videos
+    .filter(video => !video.isComplete && video.lastPosition > 0)
+    .sort((a, b) => Date.parse(b.lastWatchedAt) - Date.parse(a.lastWatchedAt))
+    .slice(0, limit);
+}
+
+/**
+ * Read everything the dashboard needs from a store. Stores that can't list
+ * their videos yield no videos; stores without a session log yield no sessions.
+ *
+ * @param store - The progress store
+ * @returns Video summaries and their session logs
+ */
+export async function loadDashboardData(store: AnyProgressStore): Promise<DashboardData> {
+  if (!store.getAllProgress) {
+    return { videos: [], sessions: [] };
+  }
+
+  const records = store.getAllProgress();
+  const videos = summarizeVideos(isPromiseLike<StoredProgress[]>(records) ? await records : records);
+
+  const sessions: SessionLogEntry[] = [];
+  if (store.getSessionLog) {
+    await Promise.all(videos.map(async video => {
+      try {
+        const result = store.getSessionLog(video.videoId);
+        sessions.push(...(isPromiseLike<SessionLogEntry[]>(result) ? await result : result));
+      } catch (error) {
+        console.error('Error loading session log:', error);
+      }
+    }));
+  }
+  return { videos, sessions };
+}
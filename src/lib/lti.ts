@@ -0,0 +1,394 @@
+/**
+ * LTI 1.3 Launch and Grade Passback
+ *
+ * Turns a validated LTI 1.3 resource link launch into the video it points
+ * at, and reports progress back to the platform's gradebook through
+ * Assignment and Grade Services (AGS).
+ *
+ * Checking the id_token's signature and getting AGS access tokens both
+ * need the tool's keys, so they go through an LtiClient, e.g.
+ * HttpLtiClient, which hands them to the tool's backend.
+ */
+
+import type { VideoProgressData } from '@/lib/videoProgressTracker';
+
+export const LTI_VERSION = '1.3.0';
+
+export const LTI_CLAIMS = {
+  messageType: 'https://purl.imsglobal.org/spec/lti/claim/message_type',
+  version: 'https://purl.imsglobal.org/spec/lti/claim/version',
+  deploymentId: 'https://purl.imsglobal.org/spec/lti/claim/deployment_id',
+  targetLinkUri: 'https://purl.imsglobal.org/spec/lti/claim/target_link_uri',
+  resourceLink: 'https://purl.imsglobal.org/spec/lti/claim/resource_link',
+  roles: 'https://purl.imsglobal.org/spec/lti/claim/roles',
+  context: 'https://purl.imsglobal.org/spec/lti/claim/context',
+  custom: 'https://purl.imsglobal.org/spec/lti/claim/custom',
+  agsEndpoint: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint'
+} as const;
+
+export const AGS_SCORE_SCOPE = 'https://purl.imsglobal.org/spec/lti-ags/scope/score';
+
+/**
+ * Claims of a launch id_token whose signature, issuer, audience, expiry
+ * and nonce have already been checked
+ */
+export type LtiLaunchClaims = Record<string, unknown>;
+
+/**
+ * The parts of a resource link launch the player uses
+ */
+export interface LtiLaunch {
+  issuer: string;
+  clientId: string;
+  deploymentId: string;
+  userId: string;
+  userName?: string;
+  roles: string[];
+  resourceLink: { id: string; title?: string; description?: string };
+  context?: { id: string; title?: string; label?: string };
+  custom: Record<string, string>;
+  ags?: { scope: string[]; lineitem?: string; lineitems?: string };
+}
+
+export type LtiActivityProgress = 'Initialized' | 'Started' | 'InProgress' | 'Submitted' | 'Completed';
+export type LtiGradingProgress = 'FullyGraded' | 'Pending' | 'PendingManual' | 'Failed' | 'NotReady';
+
+/**
+ * An AGS score, as posted to `{lineitem}/scores`
+ */
+export interface LtiScore {
+  userId: string;
+  scoreGiven: number;
+  scoreMaximum: number;
+  activityProgress: LtiActivityProgress;
+  gradingProgress: LtiGradingProgress;
+  timestamp: string;
+  comment?: string;
+}
+
+/**
+ * Validates launches and talks to AGS on the tool's behalf
+ */
+export interface LtiClient {
+  /**
+   * Verify a launch id_token
+   *
+   * @param idToken - The id_token the platform posted
+   * @returns The token's claims
+   */
+  validateLaunch(idToken: string): Promise<LtiLaunchClaims>;
+  /**
+   * Post a score to a line item
+   *
+   * @param lineitem - The line item URL from the launch's AGS claim
+   * @param score - The score to post
+   * @param options - Set keepalive for a post that must outlive the page, e.g. on pagehide
+   */
+  postScore(lineitem: string, score: LtiScore, options?: { keepalive?: boolean }): Promise<void>;
+}
+
+export class LtiLaunchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LtiLaunchError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Check a launch is a resource link launch this tool can handle and pull
+ * out the claims it needs
+ *
+ * @param claims - Claims from LtiClient.validateLaunch
+ * @returns The launch
+ * @throws LtiLaunchError if a required claim is missing or unsupported
+ */
+export function parseLtiLaunch(claims: LtiLaunchClaims): LtiLaunch {
+  if (claims[LTI_CLAIMS.messageType] !== 'LtiResourceLinkRequest') {
+    throw new LtiLaunchError(`Unsupported message type: ${String(claims[LTI_CLAIMS.messageType])}`);
+  }
+  if (claims[LTI_CLAIMS.version] !== LTI_VERSION) {
+    throw new LtiLaunchError(`Unsupported LTI version: ${String(claims[LTI_CLAIMS.version])}`);
+  }
+
+  const resourceLink = claims[LTI_CLAIMS.resourceLink];
+  const deploymentId = claims[LTI_CLAIMS.deploymentId];
+  const audience = Array.isArray(claims.aud) ? claims.aud[0] : claims.aud;
+  if (!isRecord(resourceLink) || typeof resourceLink.id !== 'string') {
+    throw new LtiLaunchError('Launch has no resource link');
+  }
+  if (typeof deploymentId !== 'string' || typeof claims.iss !== 'string' || typeof audience !== 'string') {
+    throw new LtiLaunchError('Launch is missing its issuer, audience or deployment');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new LtiLaunchError('Launch has no user');
+  }
+
+  const context = claims[LTI_CLAIMS.context];
+  const custom = claims[LTI_CLAIMS.custom];
+  const ags = claims[LTI_CLAIMS.agsEndpoint];
+  const roles = claims[LTI_CLAIMS.roles];
+
+  return {
+    issuer: claims.iss,
+    clientId: typeof claims.azp === 'string' ? claims.azp : audience,
+    deploymentId,
+    userId: claims.sub,
+    userName: optionalString(claims.name),
+    roles: Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [],
+    resourceLink: {
+      id: resourceLink.id,
+      title: optionalString(resourceLink.title),
+      description: optionalString(resourceLink.description)
+    },
+    context: isRecord(context) && typeof context.id === 'string'
+      ? { id: context.id, title: optionalString(context.title), label: optionalString(context.label) }
+      : undefined,
+    custom: isRecord(custom)
+      ? Object.fromEntries(Object.entries(custom).map(([key, value]) => [key, String(value)]))
+      : {},
+    ags: isRecord(ags) && Array.isArray(ags.scope)
+      ? {
+          scope: ags.scope.filter((scope): scope is string => typeof scope === 'string'),
+          lineitem: optionalString(ags.lineitem),
+          lineitems: optionalString(ags.lineitems)
+        }
+      : undefined
+  };
+}
+
+/**
+ * Pick the video a launch points at: the `video_id` custom parameter if
+ * the platform sends one, otherwise the resource link's mapping
+ *
+ * @param launch - The parsed launch
+ * @param videos - Videos by ID
+ * @param resourceLinks - Video IDs by resource link ID
+ * @returns The video, or null if the launch does not map to one
+ */
+export function resolveLtiVideo<T>(
+  launch: LtiLaunch,
+  videos: Record<string, T>,
+  resourceLinks: Record<string, string> = {}
+): T | null {
+  const videoId = launch.custom.video_id || resourceLinks[launch.resourceLink.id];
+  return videoId && videos[videoId] ? videos[videoId] : null;
+}
+
+/**
+ * Whether a launch's user is an instructor rather than a learner
+ *
+ * @param launch - The parsed launch
+ * @returns True for instructors and administrators
+ */
+export function isLtiInstructor(launch: LtiLaunch): boolean {
+  return launch.roles.some(role =>
+    role.endsWith('#Instructor') || role.endsWith('#Administrator') || role.endsWith('#ContentDeveloper')
+  );
+}
+
+export type LtiScoreMode = 'progress' | 'completion';
+
+/**
+ * Build the AGS score for the tracker's progress. Until the completion rules
+ * are met the grade is sent as Pending, so the gradebook doesn't record a
+ * partial (or, in completion mode, zero) score as final.
+ *
+ * @param userId - The launch's user
+ * @param data - Progress data from the tracker
+ * @param mode - Score the percentage watched, or all-or-nothing on completion
+ * @param scoreMaximum - The line item's maximum score
+ * @returns The score to post
+ */
+export function createLtiScore(
+  userId: string,
+  data: VideoProgressData,
+  mode: LtiScoreMode,
+  scoreMaximum: number = 100
+): LtiScore {
+  const isComplete = data.completedAt !== null;
+  const fraction = mode === 'completion'
+    ? (isComplete ? 1 : 0)
+    : Math.min(1, Math.max(0, data.totalProgress / 100));
+
+  return {
+    userId,
+    scoreGiven: Math.round(fraction * scoreMaximum * 100) / 100,
+    scoreMaximum,
+    activityProgress: isComplete ? 'Completed' : data.intervals.length > 0 ? 'InProgress' : 'Initialized',
+    gradingProgress: isComplete ? 'FullyGraded' : 'Pending',
+    timestamp: new Date().toISOString()
+  };
+}
+
+export interface HttpLtiClientOptions {
+  /** Base URL of the tool's LTI backend */
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Hands launch validation and score posting to the tool's backend, which
+ * holds the tool's private key and the platform's public keys:
+ *
+ * - `POST {baseUrl}/launch` with `{ id_token }` returns the verified claims
+ * - `POST {baseUrl}/scores` with `{ lineitem, score }` posts the score via AGS
+ */
+export class HttpLtiClient implements LtiClient {
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param options - Backend URL and an optional fetch implementation
+   */
+  constructor(options: HttpLtiClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  private async post(path: string, body: unknown, keepalive: boolean = false): Promise<Response> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      keepalive,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new LtiLaunchError(`LTI backend rejected ${path}: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  public async validateLaunch(idToken: string): Promise<LtiLaunchClaims> {
+    const response = await this.post('/launch', { id_token: idToken });
+    return await response.json() as LtiLaunchClaims;
+  }
+
+  public async postScore(lineitem: string, score: LtiScore, options: { keepalive?: boolean } = {}): Promise<void> {
+    await this.post('/scores', { lineitem, score }, options.keepalive);
+  }
+}
+
+export interface LtiGradePassbackOptions {
+  mode?: LtiScoreMode;
+  scoreMaximum?: number;
+  /** Minimum time between posts while progress is climbing */
+  minIntervalMs?: number;
+}
+
+/**
+ * Posts the tracker's progress to the launch's line item. Progress scores
+ * are throttled; completion is posted straight away.
+ */
+export class LtiGradePassback {
+  private client: LtiClient;
+  private launch: LtiLaunch;
+  private mode: LtiScoreMode;
+  private scoreMaximum: number;
+  private minIntervalMs: number;
+  private lastPostedKey: string | null = null;
+  private lastPostedAt: number = 0;
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+  private latest: VideoProgressData | null = null;
+  /** Highest scoreGiven the platform has accepted */
+  private bestScoreGiven: number = 0;
+
+  /**
+   * @param client - Client that posts scores
+   * @param launch - The parsed launch
+   * @param options - Scoring mode, maximum and throttling
+   */
+  constructor(client: LtiClient, launch: LtiLaunch, options: LtiGradePassbackOptions = {}) {
+    this.client = client;
+    this.launch = launch;
+    this.mode = options.mode ?? 'progress';
+    this.scoreMaximum = options.scoreMaximum ?? 100;
+    this.minIntervalMs = options.minIntervalMs ?? 15000;
+  }
+
+  /**
+   * Whether the platform accepts scores for this launch
+   */
+  public isAvailable(): boolean {
+    return this.getLineItem() !== null;
+  }
+
+  /**
+   * The line item to post scores to, if the platform accepts them
+   */
+  private getLineItem(): string | null {
+    const ags = this.launch.ags;
+    return ags?.lineitem && ags.scope.includes(AGS_SCORE_SCOPE) ? ags.lineitem : null;
+  }
+
+  /**
+   * Build the score for the progress, never lower than one already posted in
+   * 'progress' mode, e.g. after the learner resets the tracker
+   */
+  private buildScore(data: VideoProgressData): LtiScore {
+    const score = createLtiScore(this.launch.userId, data, this.mode, this.scoreMaximum);
+    if (this.mode === 'progress' && score.scoreGiven < this.bestScoreGiven) {
+      return { ...score, scoreGiven: this.bestScoreGiven };
+    }
+    return score;
+  }
+
+  private scoreKey(score: LtiScore): string {
+    return `${score.scoreGiven}:${score.activityProgress}`;
+  }
+
+  /**
+   * Post a new score if progress has changed it
+   *
+   * @param data - Progress data from the tracker's onProgressUpdate
+   */
+  public handleProgressUpdate(data: VideoProgressData): void {
+    if (!this.isAvailable()) return;
+    this.latest = data;
+    const score = this.buildScore(data);
+    if (this.scoreKey(score) === this.lastPostedKey) return;
+
+    const wait = this.lastPostedAt + this.minIntervalMs - Date.now();
+    if (data.completedAt !== null || wait <= 0) {
+      this.flush();
+    } else if (!this.pendingTimer) {
+      this.pendingTimer = setTimeout(() => this.flush(), wait);
+    }
+  }
+
+  /**
+   * Post the latest score now, e.g. when the learner leaves
+   *
+   * @param options - Set keepalive when flushing as the page unloads
+   * @returns Resolves once the score has been posted (or failed to)
+   */
+  public async flush(options: { keepalive?: boolean } = {}): Promise<void> {
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+    const lineItem = this.getLineItem();
+    if (!this.latest || !lineItem) return;
+
+    const score = this.buildScore(this.latest);
+    if (this.scoreKey(score) === this.lastPostedKey) return;
+    this.lastPostedKey = this.scoreKey(score);
+    this.lastPostedAt = Date.now();
+    try {
+      await this.client.postScore(lineItem, score, options);
+      this.bestScoreGiven = Math.max(this.bestScoreGiven, score.scoreGiven);
+    } catch (error) {
+      // Let the next update try again
+      this.lastPostedKey = null;
+      console.error('Error posting LTI score:', error);
+    }
+  }
+}
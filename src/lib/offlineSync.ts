@@ -0,0 +1,453 @@
+/**
+ * Offline Sync
+ *
+ * Sends newly watched intervals to a progress server. Intervals are queued
+ * (and persisted) first, so nothing is lost while the learner is offline;
+ * the queue is flushed when the network is back, with exponential backoff
+ * between failed attempts. The server answers each push with its merged
+ * record, which trackers union into their own intervals.
+ */
+
+import type { WatchedInterval } from '@/lib/videoProgressTracker';
+
+/**
+ * One newly watched interval waiting to reach the server
+ */
+export interface IntervalDelta {
+  /** Unique per delta, so the server can ignore retried duplicates */
+  id: string;
+  videoId: string;
+  start: number;
+  end: number;
+  /** Playback position when the interval was recorded */
+  position: number;
+  recordedAt: string;
+}
+
+/**
+ * A video's progress as the server knows it
+ */
+export interface ServerProgress {
+  videoId: string;
+  intervals: WatchedInterval[];
+  lastPosition: number;
+  /** recordedAt of the newest delta the server has merged */
+  updatedAt: string;
+}
+
+/**
+ * How progress travels to and from the server
+ */
+export interface SyncTransport {
+  /** Send deltas and return the server's merged record */
+  push(videoId: string, deltas: IntervalDelta[]): Promise<ServerProgress>;
+  /** Fetch the server's record, or null if it has none */
+  fetch(videoId: string): Promise<ServerProgress | null>;
+}
+
+/**
+ * What a tracker needs from a server sync engine
+ */
+export interface ServerProgressSync {
+  enqueue(delta: Omit<IntervalDelta, 'id'>): void;
+  getPendingDeltas(videoId: string): IntervalDelta[];
+  /**
+   * Receive the server's record for a video whenever it is fetched or pushed to
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(videoId: string, listener: (progress: ServerProgress) => void): () => void;
+}
+
+export class SyncRequestError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SyncRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether a failed request is worth retrying. Client errors other than
+ * timeouts and rate limiting mean the deltas themselves were rejected.
+ *
+ * @param error - The error thrown by the transport
+ * @returns True if the request may succeed later
+ */
+export function isRetryableSyncError(error: unknown): boolean {
+  if (!(error instanceof SyncRequestError)) return true;
+  return error.status >= 500 || error.status === 408 || error.status === 429;
+}
+
+export interface HttpSyncTransportOptions {
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Talks to a progress server using a simple REST contract:
+ *
+ * - `GET  {baseUrl}/{videoId}` returns the ServerProgress, or 404
+ * - `POST {baseUrl}/{videoId}/intervals` with `{ deltas }` merges them and
+ *   returns the updated ServerProgress. Deltas already seen (by id) are ignored.
+ */
+export class HttpSyncTransport implements SyncTransport {
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param baseUrl - Base URL of the progress resource
+   * @param options - Extra request headers and an optional fetch implementation
+   */
+  constructor(baseUrl: string, options: HttpSyncTransportOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.headers = options.headers || {};
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  private getUrl(videoId: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(videoId)}`;
+  }
+
+  public async push(videoId: string, deltas: IntervalDelta[]): Promise<ServerProgress> {
+    const response = await this.fetchImpl(`${this.getUrl(videoId)}/intervals`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...this.headers },
+      body: JSON.stringify({ deltas })
+    });
+    if (!response.ok) {
+      throw new SyncRequestError(`Failed to sync progress: ${response.status} ${response.statusText}`, response.status);
+    }
+    return response.json();
+  }
+
+  public async fetch(videoId: string): Promise<ServerProgress | null> {
+    const response = await this.fetchImpl(this.getUrl(videoId), {
+      method: 'GET',
+      headers: { Accept: 'application/json', ...this.headers }
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new SyncRequestError(`Failed to fetch progress: ${response.status} ${response.statusText}`, response.status);
+    }
+    return response.json();
+  }
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Deltas waiting to be sent */
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  /** When the next retry is scheduled (ms since epoch), if one is */
+  nextRetryAt: number | null;
+}
+
+export interface SyncRetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_SYNC_RETRY_POLICY: SyncRetryPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+export interface OfflineSyncEngineOptions {
+  transport: SyncTransport;
+  /** Where the queue survives reloads. Defaults to localStorage; null keeps it in memory. */
+  queueStorage?: Storage | null;
+  queueKey?: string;
+  retry?: Partial<SyncRetryPolicy>;
+  /** Defaults to navigator.onLine */
+  isOnline?: () => boolean;
+}
+
+/**
+ * Subtract one set of intervals from another
+ *
+ * @param intervals - Merged intervals to subtract from
+ * @param remove - Intervals to take away
+ * @returns The parts of `intervals` not covered by `remove`
+ */
+export function subtractIntervals(intervals: WatchedInterval[], remove: WatchedInterval[]): WatchedInterval[] {
+  const sortedRemove = [...remove].sort((a, b) => a.start - b.start);
+  const result: WatchedInterval[] = [];
+
+  intervals.forEach(interval => {
+    let start = interval.start;
+    for (const cut of sortedRemove) {
+      if (cut.end <= start) continue;
+      if (cut.start >= interval.end) break;
+      if (cut.start > start) {
+        result.push({ start, end: cut.start });
+      }
+      start = Math.max(start, cut.end);
+      if (start >= interval.end) break;
+    }
+    if (start < interval.end) {
+      result.push({ start, end: interval.end });
+    }
+  });
+  return result;
+}
+
+/**
+ * Queues interval deltas and syncs them to a progress server
+ */
+export class OfflineSyncEngine implements ServerProgressSync {
+  private transport: SyncTransport;
+  private queueStorage: Storage | null;
+  private queueKey: string;
+  private retryPolicy: SyncRetryPolicy;
+  private isOnline: () => boolean;
+  private memoryQueue: IntervalDelta[] = [];
+  private listeners = new Map<string, Set<(progress: ServerProgress) => void>>();
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private status: SyncStatus;
+  private retryAttempt: number = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushPromise: Promise<void> | null = null;
+
+  /**
+   * @param options - Transport, queue persistence and retry settings
+   */
+  constructor(options: OfflineSyncEngineOptions) {
+    this.transport = options.transport;
+    this.queueStorage = options.queueStorage !== undefined
+      ? options.queueStorage
+      : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.queueKey = options.queueKey ?? 'progressSyncQueue';
+    this.retryPolicy = { ...DEFAULT_SYNC_RETRY_POLICY, ...options.retry };
+    this.isOnline = options.isOnline ?? (() => typeof navigator === 'undefined' || navigator.onLine);
+    const queued = this.readQueue();
+    this.status = {
+      state: this.isOnline() ? 'idle' : 'offline',
+      pendingCount: queued.length,
+      lastSyncedAt: null,
+      lastError: null,
+      nextRetryAt: null
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    if (queued.length > 0) {
+      this.flush();
+    }
+  }
+
+  private handleOnline = () => {
+    this.clearRetry();
+    this.retryAttempt = 0;
+    // Push what was queued offline, then pick up anything other devices sent meanwhile
+    this.flush().then(() => Promise.all([...this.listeners.keys()].map(videoId => this.refresh(videoId))));
+  };
+
+  private handleOffline = () => {
+    this.clearRetry();
+    this.setStatus({ state: 'offline', nextRetryAt: null });
+  };
+
+  /**
+   * Read the queue. With persistent storage it is re-read every time, since
+   * other tabs share it; their deltas may be pushed from here too, and the
+   * server ignores the duplicates.
+   */
+  private readQueue(): IntervalDelta[] {
+    if (!this.queueStorage) return this.memoryQueue;
+    try {
+      const saved = this.queueStorage.getItem(this.queueKey);
+      const parsed = saved ? JSON.parse(saved) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Error loading sync queue:', error);
+      return [];
+    }
+  }
+
+  private writeQueue(queue: IntervalDelta[]): void {
+    this.memoryQueue = queue;
+    if (!this.queueStorage) return;
+    try {
+      this.queueStorage.setItem(this.queueKey, JSON.stringify(queue));
+    } catch (error) {
+      console.error('Error saving sync queue:', error);
+    }
+  }
+
+  private setStatus(update: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...update, pendingCount: this.readQueue().length };
+    this.statusListeners.forEach(listener => listener(this.status));
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private scheduleRetry(error: unknown): void {
+    const delay = Math.min(
+      this.retryPolicy.maxDelayMs,
+      this.retryPolicy.baseDelayMs * 2 ** this.retryAttempt
+    );
+    this.retryAttempt += 1;
+    this.clearRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+    this.setStatus({
+      state: this.isOnline() ? 'error' : 'offline',
+      lastError: error instanceof Error ? error.message : String(error),
+      nextRetryAt: Date.now() + delay
+    });
+  }
+
+  private notify(progress: ServerProgress): void {
+    this.listeners.get(progress.videoId)?.forEach(listener => listener(progress));
+  }
+
+  public enqueue(delta: Omit<IntervalDelta, 'id'>): void {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    this.writeQueue([...this.readQueue(), { ...delta, id }]);
+    this.setStatus({});
+    if (!this.retryTimer) {
+      this.flush();
+    }
+  }
+
+  public getPendingDeltas(videoId: string): IntervalDelta[] {
+    return this.readQueue().filter(delta => delta.videoId === videoId);
+  }
+
+  public subscribe(videoId: string, listener: (progress: ServerProgress) => void): () => void {
+    if (!this.listeners.has(videoId)) {
+      this.listeners.set(videoId, new Set());
+    }
+    this.listeners.get(videoId).add(listener);
+    this.refresh(videoId);
+    return () => {
+      this.listeners.get(videoId)?.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for sync status changes
+   *
+   * @param listener - Called with the new status
+   * @returns A function that removes the listener
+   */
+  public onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  public getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Fetch the server's record for a video and pass it to subscribers
+   *
+   * @param videoId - The video to fetch
+   */
+  public async refresh(videoId: string): Promise<void> {
+    if (!this.isOnline()) return;
+    try {
+      const progress = await this.transport.fetch(videoId);
+      if (progress) {
+        this.notify(progress);
+      }
+    } catch (error) {
+      console.error('Error fetching server progress:', error);
+    }
+  }
+
+  /**
+   * Send every queued delta, one request per video
+   *
+   * @returns Resolves when this attempt has finished
+   */
+  public flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async runFlush(): Promise<void> {
+    if (!this.isOnline()) {
+      this.setStatus({ state: 'offline' });
+      return;
+    }
+    const queued = this.readQueue();
+    if (queued.length === 0) {
+      this.setStatus({ state: 'idle' });
+      return;
+    }
+
+    this.setStatus({ state: 'syncing', nextRetryAt: null });
+    const videoIds = [...new Set(queued.map(delta => delta.videoId))];
+
+    for (const videoId of videoIds) {
+      const batch = this.getPendingDeltas(videoId);
+      try {
+        const progress = await this.transport.push(videoId, batch);
+        this.removeFromQueue(batch);
+        this.notify(progress);
+      } catch (error) {
+        if (isRetryableSyncError(error)) {
+          this.scheduleRetry(error);
+          return;
+        }
+        console.error('Error syncing progress, dropping rejected intervals:', error);
+        this.removeFromQueue(batch);
+      }
+    }
+
+    this.retryAttempt = 0;
+    const remaining = this.readQueue().length;
+    this.setStatus({
+      state: remaining > 0 ? 'syncing' : 'idle',
+      lastSyncedAt: new Date().toISOString(),
+      lastError: null
+    });
+    // Deltas recorded while this flush was running go out in the next one
+    if (remaining > 0) {
+      setTimeout(() => this.flush(), 0);
+    }
+  }
+
+  private removeFromQueue(sent: IntervalDelta[]): void {
+    const sentIds = new Set(sent.map(delta => delta.id));
+    this.writeQueue(this.readQueue().filter(delta => !sentIds.has(delta.id)));
+  }
+
+  /**
+   * Stop listening for connectivity changes and cancel any pending retry.
+   * Queued deltas stay persisted for the next session.
+   */
+  public destroy(): void {
+    this.clearRetry();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    this.listeners.clear();
+    this.statusListeners.clear();
+  }
+}
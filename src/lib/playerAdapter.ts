@@ -0,0 +1,268 @@
+/**
+ * Player Adapters
+ *
+ * A common interface over the players we track: a native <video> element
+ * and embedded YouTube and Vimeo players. Tracking logic
+ * talks only to a PlayerAdapter, so the same progress tracking works no
+ * matter what is actually rendering the video.
+ */
+
+export type PlayerEventType =
+  | 'play'
+  | 'playing'
+  | 'pause'
+  | 'waiting'
+  | 'seeked'
+  | 'timeupdate'
+  | 'durationchange'
+  | 'ratechange'
+  | 'ended';
+
+/**
+ * A snapshot of the player state at the moment an event fired
+ */
+export interface PlayerEvent {
+  type: PlayerEventType;
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+}
+
+export type PlayerEventListener = (event: PlayerEvent) => void;
+
+export interface PlayerAdapter {
+  play(): Promise<void>;
+  pause(): void;
+  seek(time: number): void;
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlaybackRate(): number;
+  setPlaybackRate(rate: number): void;
+  isPaused(): boolean;
+  /**
+   * Subscribe to a player event
+   *
+   * @returns A function that removes the listener
+   */
+  on(type: PlayerEventType, listener: PlayerEventListener): () => void;
+  destroy(): void;
+}
+
+/**
+ * Listener bookkeeping shared by the concrete adapters
+ */
+export abstract class BasePlayerAdapter implements PlayerAdapter {
+  private listeners = new Map<PlayerEventType, Set<PlayerEventListener>>();
+
+  public abstract play(): Promise<void>;
+  public abstract pause(): void;
+  public abstract seek(time: number): void;
+  public abstract getCurrentTime(): number;
+  public abstract getDuration(): number;
+  public abstract getPlaybackRate(): number;
+  public abstract setPlaybackRate(rate: number): void;
+  public abstract isPaused(): boolean;
+
+  public on(type: PlayerEventType, listener: PlayerEventListener): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type).add(listener);
+    return () => {
+      this.listeners.get(type)?.delete(listener);
+    };
+  }
+
+  public destroy(): void {
+    this.listeners.clear();
+  }
+
+  /**
+   * Notify listeners, snapshotting the current player state
+   *
+   * @param type - The event to emit
+   */
+  protected emit(type: PlayerEventType): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners || listeners.size === 0) return;
+
+    const event: PlayerEvent = {
+      type,
+      currentTime: this.getCurrentTime(),
+      duration: this.getDuration(),
+      playbackRate: this.getPlaybackRate()
+    };
+    listeners.forEach(listener => listener(event));
+  }
+}
+
+const NATIVE_EVENTS: PlayerEventType[] = [
+  'play',
+  'playing',
+  'pause',
+  'waiting',
+  'seeked',
+  'timeupdate',
+  'durationchange',
+  'ratechange',
+  'ended'
+];
+
+/**
+ * Adapter for a native HTMLVideoElement
+ */
+export class NativeVideoAdapter extends BasePlayerAdapter {
+  private video: HTMLVideoElement;
+  private handlers = new Map<PlayerEventType, () => void>();
+
+  /**
+   * @param video - The element to wrap
+   */
+  constructor(video: HTMLVideoElement) {
+    super();
+    this.video = video;
+    NATIVE_EVENTS.forEach(type => {
+      const handler = () => this.emit(type);
+      this.handlers.set(type, handler);
+      video.addEventListener(type, handler);
+    });
+  }
+
+  public play(): Promise<void> {
+    return this.video.play();
+  }
+
+  public pause(): void {
+    this.video.pause();
+  }
+
+  public seek(time: number): void {
+    this.video.currentTime = time;
+  }
+
+  public getCurrentTime(): number {
+    return this.video.currentTime;
+  }
+
+  public getDuration(): number {
+    return Number.isFinite(this.video.duration) ? this.video.duration : 0;
+  }
+
+  public getPlaybackRate(): number {
+    return this.video.playbackRate;
+  }
+
+  public setPlaybackRate(rate: number): void {
+    this.video.playbackRate = rate;
+  }
+
+  public isPaused(): boolean {
+    return this.video.paused;
+  }
+
+  public destroy(): void {
+    this.handlers.forEach((handler, type) => this.video.removeEventListener(type, handler));
+    this.handlers.clear();
+    super.destroy();
+  }
+}
+
+/**
+ * The tracker operations driven by player events
+ */
+export interface PlayerTrackingControls {
+  startTracking: (currentTime: number) => void;
+  stopTracking: (currentTime: number) => void;
+  handleSeek: (currentTime: number, previousTime?: number) => void;
+  setPlaybackRate: (rate: number, currentTime?: number) => void;
+  onDurationChange?: (duration: number) => void;
+  onTimeUpdate?: (currentTime: number) => void;
+}
+
+/**
+ * Media seconds a timeupdate may advance before it is treated as a jump.
+ * Embedded players poll, so this is looser than a native element needs.
+ */
+const JUMP_THRESHOLD_SECONDS = 1.5;
+
+/** Backwards movement smaller than this is treated as timer jitter, not a rewind */
+const REWIND_TOLERANCE_SECONDS = 0.5;
+
+/**
+ * Drive a progress tracker from a player's events: segments start on play,
+ * end on pause, stall or end, and are split when playback jumps. A seek is
+ * reported once, whichever of `seeked`, a jumping timeupdate or playback
+ * resuming comes first.
+ *
+ * @param adapter - The player to observe
+ * @param controls - Tracker operations, e.g. from useVideoProgress
+ * @returns A function that disconnects all listeners
+ */
+export function connectPlayerToTracker(adapter: PlayerAdapter, controls: PlayerTrackingControls): () => void {
+  let lastTime = adapter.getCurrentTime();
+
+  const isJump = (event: PlayerEvent) => {
+    const advance = event.currentTime - lastTime;
+    const maxAdvance = JUMP_THRESHOLD_SECONDS * Math.max(1, event.playbackRate);
+    return advance < -REWIND_TOLERANCE_SECONDS || advance > maxAdvance;
+  };
+
+  const handleJump = (event: PlayerEvent) => {
+    // The other signal for this seek finds the playhead already where it is
+    if (Math.abs(event.currentTime - lastTime) > REWIND_TOLERANCE_SECONDS) {
+      controls.handleSeek(event.currentTime, lastTime);
+    }
+    lastTime = event.currentTime;
+  };
+
+  const handleStart = (event: PlayerEvent) => {
+    // After a stalled seek, playback resuming may be the first sign of the jump
+    handleJump(event);
+    controls.startTracking(event.currentTime);
+  };
+
+  const handleStop = (event: PlayerEvent) => {
+    controls.stopTracking(event.currentTime);
+    lastTime = event.currentTime;
+  };
+
+  const handleStall = (event: PlayerEvent) => {
+    if (isJump(event)) {
+      // Seeking into unbuffered media stalls with the playhead already at the
+      // target: close the segment where playback was, and leave lastTime
+      // there so the seek is still reported when playback moves on
+      controls.stopTracking(lastTime);
+      return;
+    }
+    handleStop(event);
+  };
+
+  const unsubscribers = [
+    adapter.on('play', handleStart),
+    adapter.on('playing', handleStart),
+    adapter.on('pause', handleStop),
+    adapter.on('waiting', handleStall),
+    adapter.on('ended', handleStop),
+    adapter.on('seeked', handleJump),
+    adapter.on('timeupdate', (event) => {
+      if (isJump(event)) {
+        handleJump(event);
+      } else {
+        lastTime = event.currentTime;
+      }
+      controls.onTimeUpdate?.(event.currentTime);
+    }),
+    adapter.on('ratechange', (event) => {
+      controls.setPlaybackRate(event.playbackRate, event.currentTime);
+    }),
+    adapter.on('durationchange', (event) => {
+      controls.onDurationChange?.(event.duration);
+    })
+  ];
+
+  if (adapter.getDuration() > 0) {
+    controls.onDurationChange?.(adapter.getDuration());
+  }
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
@@ -0,0 +1,254 @@
+/**
+ * Progress Schema
+ *
+ * Versioning, migration and validation for persisted and exported progress.
+ * Every payload read from a store or imported from a file goes through
+ * `parseProgressPayload`, which upgrades it to the current schema version
+ * and rejects anything malformed.
+ */
+
+import type {
+  PlaybackRatePolicy,
+  SuspiciousSegment,
+  VideoProgressData,
+  WatchedInterval
+} from '@/lib/videoProgressTracker';
+import { HeatmapData, ViewHeatmap } from '@/lib/viewHeatmap';
+
+/**
+ * Schema version written by this build.
+ *
+ * - 1: unversioned legacy payloads, either the stored `{ intervals, lastPos }`
+ *      blob or the export format with `lastPosition` and `exportedAt`
+ * - 2: `VideoProgressData` with `schemaVersion`
+ * - 3: adds `playbackRatePolicy`, `suspiciousSegments`, `heatmap`,
+ *      `completedAt` and `trackedDuration`, all required
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+/**
+ * Allowed slack when checking intervals against the video duration, to
+ * absorb rounding in the media element's reported duration
+ */
+const DURATION_TOLERANCE = 0.5;
+
+type RawPayload = Record<string, unknown>;
+
+export interface MigrationContext {
+  videoId: string;
+}
+
+/**
+ * Upgrades a payload from one schema version to the next
+ */
+export type ProgressMigration = (payload: RawPayload, context: MigrationContext) => RawPayload;
+
+export class ProgressSchemaError extends Error {
+  public readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ProgressSchemaError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const migrations = new Map<number, ProgressMigration>();
+
+/**
+ * Register a migration that upgrades payloads from `fromVersion` to `fromVersion + 1`
+ *
+ * @param fromVersion - The schema version the migration accepts
+ * @param migration - Function returning the upgraded payload
+ */
+export function registerMigration(fromVersion: number, migration: ProgressMigration): void {
+  migrations.set(fromVersion, migration);
+}
+
+registerMigration(1, (payload, context) => ({
+  videoId: typeof payload.videoId === 'string' ? payload.videoId : context.videoId,
+  intervals: payload.intervals ?? [],
+  lastPosition: payload.lastPosition ?? payload.lastPos ?? 0,
+  totalProgress: payload.totalProgress ?? 0,
+  updatedAt: payload.updatedAt ?? payload.exportedAt ?? new Date().toISOString(),
+  schemaVersion: 2
+}));
+
+// Version 2 payloads written after these fields were introduced keep them.
+// The defaults are the ones in force before version 3, not whatever the
+// tracker's defaults are now.
+registerMigration(2, (payload) => {
+  const intervals = Array.isArray(payload.intervals) ? payload.intervals : [];
+  let heatmap = payload.heatmap;
+  if (heatmap === undefined) {
+    // Count each moment already covered as one view, as the tracker did when loading
+    const seeded = new ViewHeatmap(1);
+    intervals
+      .filter((interval, index) => validateInterval(interval, index).length === 0)
+      .forEach(interval => seeded.addInterval(interval));
+    heatmap = seeded.toData();
+  }
+  return {
+    ...payload,
+    playbackRatePolicy: payload.playbackRatePolicy ?? { maxFullCreditRate: 2, overRateCredit: 'scaled' },
+    suspiciousSegments: payload.suspiciousSegments ?? [],
+    heatmap,
+    completedAt: payload.completedAt ?? null,
+    trackedDuration: payload.trackedDuration ?? 0,
+    schemaVersion: 3
+  };
+});
+
+/**
+ * Upgrade a payload to the current schema version
+ *
+ * @param payload - Parsed payload of any known version
+ * @param context - Values a migration may need to fill in missing fields
+ * @returns Payload at CURRENT_SCHEMA_VERSION
+ */
+export function migrateProgressPayload(payload: RawPayload, context: MigrationContext): RawPayload {
+  let version = typeof payload.schemaVersion === 'number' ? payload.schemaVersion : 1;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new ProgressSchemaError(
+      `Unsupported schema version ${version} (this build supports up to ${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let migrated = payload;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new ProgressSchemaError(`No migration registered from schema version ${version}`);
+    }
+    migrated = migration(migrated, context);
+    version += 1;
+  }
+  return migrated;
+}
+
+const isValidNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check a single interval
+ *
+ * @param interval - The interval to check
+ * @param index - Position in the list, used in messages
+ * @param duration - Video duration in seconds, or 0 if not yet known
+ * @returns Problems found, empty if valid
+ */
+export function validateInterval(interval: unknown, index: number, duration: number = 0): string[] {
+  const issues: string[] = [];
+  const { start, end } = (interval || {}) as Partial<WatchedInterval>;
+
+  if (!isValidNumber(start) || !isValidNumber(end)) {
+    issues.push(`interval ${index} has a non-numeric start or end`);
+    return issues;
+  }
+  if (start < 0 || end < 0) {
+    issues.push(`interval ${index} is negative`);
+  }
+  if (start > end) {
+    issues.push(`interval ${index} starts after it ends`);
+  }
+  if (duration > 0 && end > duration + DURATION_TOLERANCE) {
+    issues.push(`interval ${index} ends beyond the video duration`);
+  }
+  return issues;
+}
+
+/**
+ * Check a payload already at the current schema version
+ *
+ * @param payload - The payload to check
+ * @param duration - Video duration in seconds, or 0 if not yet known
+ * @returns Problems found, empty if valid
+ */
+export function validateProgressData(payload: RawPayload, duration: number = 0): string[] {
+  const issues: string[] = [];
+
+  if (typeof payload.videoId !== 'string' || payload.videoId === '') {
+    issues.push('videoId is missing');
+  }
+  if (!Array.isArray(payload.intervals)) {
+    issues.push('intervals is not an array');
+  } else {
+    payload.intervals.forEach((interval, index) => {
+      issues.push(...validateInterval(interval, index, duration));
+    });
+  }
+  if (!isValidNumber(payload.lastPosition) || payload.lastPosition < 0) {
+    issues.push('lastPosition is not a non-negative number');
+  }
+  if (typeof payload.updatedAt !== 'string' || Number.isNaN(Date.parse(payload.updatedAt))) {
+    issues.push('updatedAt is not a date');
+  }
+  const { maxFullCreditRate, overRateCredit } = (payload.playbackRatePolicy || {}) as Partial<PlaybackRatePolicy>;
+  if (!isValidNumber(maxFullCreditRate) || (overRateCredit !== 'scaled' && overRateCredit !== 'none')) {
+    issues.push('playbackRatePolicy is invalid');
+  }
+  if (!Array.isArray(payload.suspiciousSegments)) {
+    issues.push('suspiciousSegments is not an array');
+  }
+  if (
+    payload.completedAt !== null &&
+    (typeof payload.completedAt !== 'string' || Number.isNaN(Date.parse(payload.completedAt)))
+  ) {
+    issues.push('completedAt is not a date');
+  }
+  if (!isValidNumber(payload.trackedDuration) || payload.trackedDuration < 0) {
+    issues.push('trackedDuration is not a non-negative number');
+  }
+  const { bucketSize, counts } = (payload.heatmap || {}) as Partial<HeatmapData>;
+  if (!isValidNumber(bucketSize) || bucketSize <= 0) {
+    issues.push('heatmap bucketSize is not a positive number');
+  }
+  if (!Array.isArray(counts) || counts.some(count => !isValidNumber(count) || count < 0)) {
+    issues.push('heatmap counts are not non-negative numbers');
+  }
+  return issues;
+}
+
+/**
+ * Migrate and validate a parsed payload from a store or an import
+ *
+ * @param payload - Parsed JSON of any known schema version
+ * @param context - The video being loaded and its duration, if known
+ * @returns The payload as current-version VideoProgressData
+ * @throws ProgressSchemaError if the payload cannot be migrated or is malformed
+ */
+export function parseProgressPayload(
+  payload: unknown,
+  context: MigrationContext & { duration?: number }
+): VideoProgressData {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new ProgressSchemaError('Progress payload is not an object');
+  }
+
+  const migrated = migrateProgressPayload(payload as RawPayload, context);
+  // Intervals are positions on the timeline they were recorded against,
+  // which may differ from the current video if it has been re-encoded
+  const recordedDuration = isValidNumber(migrated.trackedDuration) && migrated.trackedDuration > 0
+    ? migrated.trackedDuration
+    : context.duration;
+  const issues = validateProgressData(migrated, recordedDuration);
+  if (issues.length > 0) {
+    throw new ProgressSchemaError('Invalid progress data', issues);
+  }
+  return {
+    videoId: String(migrated.videoId),
+    intervals: migrated.intervals as WatchedInterval[],
+    lastPosition: Number(migrated.lastPosition),
+    totalProgress: isValidNumber(migrated.totalProgress) ? migrated.totalProgress : 0,
+    updatedAt: String(migrated.updatedAt),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    playbackRatePolicy: migrated.playbackRatePolicy as PlaybackRatePolicy,
+    suspiciousSegments: migrated.suspiciousSegments as SuspiciousSegment[],
+    heatmap: migrated.heatmap as HeatmapData,
+    completedAt: migrated.completedAt as string | null,
+    trackedDuration: Number(migrated.trackedDuration)
+  };
+}
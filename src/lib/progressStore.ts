@@ -0,0 +1,281 @@
+/**
+ * Progress Stores
+ *
+ * Pluggable persistence backends for VideoProgressTracker. A store only
+ * knows how to read, write and remove the saved progress for a video;
+ * all interval logic stays in the tracker.
+ */
+
+import type { VideoProgressData } from '@/lib/videoProgressTracker';
+
+/**
+ * The progress payload persisted for a single video. Payloads written by
+ * older builds may come back in a legacy shape; the tracker migrates them
+ * on load (see progressSchema.ts).
+ */
+export type StoredProgress = VideoProgressData;
+
+/**
+ * A single watched interval as it was recorded, before merging
+ */
+export interface SessionLogEntry {
+  videoId: string;
+  start: number;
+  end: number;
+  addedAt: string;
+}
+
+/**
+ * A store whose operations complete synchronously (e.g. localStorage)
+ */
+export interface ProgressStore {
+  load(videoId: string): StoredProgress | null;
+  save(videoId: string, data: StoredProgress): void;
+  remove(videoId: string): void;
+  /** Optional append-only log of every interval as it was added */
+  appendSession?(entry: SessionLogEntry): void;
+  /** Optional listing of every stored video's progress, e.g. for dashboards */
+  getAllProgress?(): StoredProgress[];
+  /** Optional read-back of a video's session log, oldest first */
+  getSessionLog?(videoId: string): SessionLogEntry[];
+  /** Optional move of a video's session log to another video ID, e.g. when its progress is re-keyed */
+  moveSessionLog?(fromId: string, toId: string): void;
+}
+
+/**
+ * A store whose operations complete asynchronously (e.g. IndexedDB, HTTP)
+ */
+export interface AsyncProgressStore {
+  load(videoId: string): Promise<StoredProgress | null>;
+  save(videoId: string, data: StoredProgress): Promise<void>;
+  remove(videoId: string): Promise<void>;
+  /** Optional append-only log of every interval as it was added */
+  appendSession?(entry: SessionLogEntry): Promise<void>;
+  /** Optional listing of every stored video's progress, e.g. for dashboards */
+  getAllProgress?(): Promise<StoredProgress[]>;
+  /** Optional read-back of a video's session log, oldest first */
+  getSessionLog?(videoId: string): Promise<SessionLogEntry[]>;
+  /** Optional move of a video's session log to another video ID, e.g. when its progress is re-keyed */
+  moveSessionLog?(fromId: string, toId: string): Promise<void>;
+}
+
+export type AnyProgressStore = ProgressStore | AsyncProgressStore;
+
+/**
+ * Checks whether a store result is a promise
+ *
+ * @param value - Value returned from a store operation
+ * @returns True if the value is thenable
+ */
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return !!value && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/** Session log entries kept per video in localStorage; older ones are dropped */
+const MAX_LOCAL_SESSION_ENTRIES = 500;
+
+/**
+ * Stores progress in window.localStorage under `videoProgress-${videoId}`,
+ * and each video's session log under `videoSessions-${videoId}`
+ */
+export class LocalStorageProgressStore implements ProgressStore {
+  private keyPrefix: string;
+  private sessionKeyPrefix: string;
+
+  /**
+   * @param keyPrefix - Prefix prepended to the video ID to build the storage key
+   * @param sessionKeyPrefix - Prefix prepended to the video ID to build the session log key
+   */
+  constructor(keyPrefix: string = 'videoProgress-', sessionKeyPrefix: string = 'videoSessions-') {
+    this.keyPrefix = keyPrefix;
+    this.sessionKeyPrefix = sessionKeyPrefix;
+  }
+
+  private getKey(videoId: string): string {
+    return `${this.keyPrefix}${videoId}`;
+  }
+
+  private getSessionKey(videoId: string): string {
+    return `${this.sessionKeyPrefix}${videoId}`;
+  }
+
+  public load(videoId: string): StoredProgress | null {
+    const savedData = localStorage.getItem(this.getKey(videoId));
+    return savedData ? JSON.parse(savedData) : null;
+  }
+
+  public save(videoId: string, data: StoredProgress): void {
+    localStorage.setItem(this.getKey(videoId), JSON.stringify(data));
+  }
+
+  public remove(videoId: string): void {
+    localStorage.removeItem(this.getKey(videoId));
+  }
+
+  public appendSession(entry: SessionLogEntry): void {
+    const entries = [...this.getSessionLog(entry.videoId), entry];
+    localStorage.setItem(
+      this.getSessionKey(entry.videoId),
+      JSON.stringify(entries.slice(-MAX_LOCAL_SESSION_ENTRIES))
+    );
+  }
+
+  /**
+   * Get every stored video's progress. Records that can't be parsed are skipped.
+   *
+   * @returns All progress records, in storage key order
+   */
+  public getAllProgress(): StoredProgress[] {
+    const records: StoredProgress[] = [];
+    for (let index = 0; index < localStorage.length; index++) {
+      const key = localStorage.key(index);
+      if (!key || !key.startsWith(this.keyPrefix)) continue;
+      try {
+        const record = JSON.parse(localStorage.getItem(key) || 'null');
+        if (record && typeof record === 'object') {
+          // Legacy payloads may not carry their video ID
+          records.push({ ...record, videoId: key.slice(this.keyPrefix.length) });
+        }
+      } catch (error) {
+        console.error('Error reading stored progress:', error);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Get the session log for a video
+   *
+   * @param videoId - The video to fetch history for
+   * @returns Session entries in the order they were added
+   */
+  public getSessionLog(videoId: string): SessionLogEntry[] {
+    const savedData = localStorage.getItem(this.getSessionKey(videoId));
+    return savedData ? JSON.parse(savedData) : [];
+  }
+
+  /**
+   * Move a video's session log to another video ID, after any entries already logged there
+   *
+   * @param fromId - The video ID the log is kept under
+   * @param toId - The video ID to keep it under instead
+   */
+  public moveSessionLog(fromId: string, toId: string): void {
+    const moved = this.getSessionLog(fromId).map(entry => ({ ...entry, videoId: toId }));
+    if (moved.length === 0) return;
+    const entries = [...this.getSessionLog(toId), ...moved];
+    localStorage.setItem(this.getSessionKey(toId), JSON.stringify(entries.slice(-MAX_LOCAL_SESSION_ENTRIES)));
+    localStorage.removeItem(this.getSessionKey(fromId));
+  }
+}
+
+/**
+ * Keeps progress in memory only. Useful for tests and private sessions.
+ */
+export class MemoryProgressStore implements ProgressStore {
+  private records = new Map<string, string>();
+  private sessions: SessionLogEntry[] = [];
+
+  public load(videoId: string): StoredProgress | null {
+    const savedData = this.records.get(videoId);
+    return savedData ? JSON.parse(savedData) : null;
+  }
+
+  public save(videoId: string, data: StoredProgress): void {
+    // Serialize so callers can't mutate what we've stored
+    this.records.set(videoId, JSON.stringify(data));
+  }
+
+  public remove(videoId: string): void {
+    this.records.delete(videoId);
+  }
+
+  public appendSession(entry: SessionLogEntry): void {
+    this.sessions.push({ ...entry });
+  }
+
+  public getAllProgress(): StoredProgress[] {
+    return [...this.records.values()].map(savedData => JSON.parse(savedData));
+  }
+
+  public getSessionLog(videoId: string): SessionLogEntry[] {
+    return this.sessions.filter(entry => entry.videoId === videoId).map(entry => ({ ...entry }));
+  }
+
+  public moveSessionLog(fromId: string, toId: string): void {
+    this.sessions = this.sessions.map(entry => entry.videoId === fromId ? { ...entry, videoId: toId } : entry);
+  }
+
+  /**
+   * Remove every stored record and session log entry
+   */
+  public clear(): void {
+    this.records.clear();
+    this.sessions = [];
+  }
+}
+
+export interface HttpProgressStoreOptions {
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Stores progress on a server using a simple REST contract:
+ *
+ * - `GET    {baseUrl}/{videoId}` returns the stored progress, or 404
+ * - `PUT    {baseUrl}/{videoId}` replaces it with the JSON body
+ * - `DELETE {baseUrl}/{videoId}` removes it
+ */
+export class HttpProgressStore implements AsyncProgressStore {
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param baseUrl - Base URL of the progress resource
+   * @param options - Extra request headers and an optional fetch implementation
+   */
+  constructor(baseUrl: string, options: HttpProgressStoreOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.headers = options.headers || {};
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  private getUrl(videoId: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(videoId)}`;
+  }
+
+  public async load(videoId: string): Promise<StoredProgress | null> {
+    const response = await this.fetchImpl(this.getUrl(videoId), {
+      method: 'GET',
+      headers: { Accept: 'application/json', ...this.headers }
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to load progress: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  public async save(videoId: string, data: StoredProgress): Promise<void> {
+    const response = await this.fetchImpl(this.getUrl(videoId), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(data)
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to save progress: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  public async remove(videoId: string): Promise<void> {
+    const response = await this.fetchImpl(this.getUrl(videoId), {
+      method: 'DELETE',
+      headers: this.headers
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to remove progress: ${response.status} ${response.statusText}`);
+    }
+  }
+}
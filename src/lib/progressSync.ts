@@ -0,0 +1,129 @@
+/**
+ * Progress Sync
+ *
+ * Lets trackers for the same video in different tabs see each other's
+ * saves, so one tab doesn't overwrite the other's intervals. Messages go
+ * over a BroadcastChannel; browsers without one fall back to the
+ * `storage` event fired when another tab writes to localStorage.
+ */
+
+/**
+ * A save announced by a tracker
+ */
+export interface ProgressSyncMessage {
+  /** Identifies the sending tracker, so it can ignore its own messages */
+  sourceId: string;
+  videoId: string;
+  /** The saved progress payload, validated by the receiver */
+  data: unknown;
+}
+
+export type ProgressSyncListener = (message: ProgressSyncMessage) => void;
+
+export interface ProgressSync {
+  publish(message: ProgressSyncMessage): void;
+  /**
+   * Listen for saves of one video from other trackers
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(videoId: string, listener: ProgressSyncListener): () => void;
+}
+
+/** Source ID used for payloads picked up from storage events */
+const STORAGE_SOURCE_ID = 'storage';
+
+export interface CrossTabProgressSyncOptions {
+  /** BroadcastChannel name shared by all tabs */
+  channelName?: string;
+  /** localStorage key prefix watched when falling back to storage events */
+  keyPrefix?: string;
+}
+
+/**
+ * Syncs progress between tabs of the same origin
+ */
+export class CrossTabProgressSync implements ProgressSync {
+  private keyPrefix: string;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Map<string, Set<ProgressSyncListener>>();
+
+  /**
+   * @param options - Channel name and localStorage key prefix
+   */
+  constructor(options: CrossTabProgressSyncOptions = {}) {
+    this.keyPrefix = options.keyPrefix ?? 'videoProgress-';
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(options.channelName ?? 'true-view-progress');
+      this.channel.addEventListener('message', this.handleMessage);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+  }
+
+  private handleMessage = (event: MessageEvent<ProgressSyncMessage>) => {
+    this.dispatch(event.data);
+  };
+
+  private handleStorage = (event: StorageEvent) => {
+    if (!event.key || !event.key.startsWith(this.keyPrefix) || !event.newValue) return;
+    try {
+      this.dispatch({
+        sourceId: STORAGE_SOURCE_ID,
+        videoId: event.key.slice(this.keyPrefix.length),
+        data: JSON.parse(event.newValue)
+      });
+    } catch (error) {
+      console.error('Error reading synced progress:', error);
+    }
+  };
+
+  private dispatch(message: ProgressSyncMessage): void {
+    if (!message || typeof message.videoId !== 'string') return;
+    this.listeners.get(message.videoId)?.forEach(listener => listener(message));
+  }
+
+  public publish(message: ProgressSyncMessage): void {
+    // Other trackers in this tab don't get BroadcastChannel or storage events
+    this.dispatch(message);
+    this.channel?.postMessage(message);
+  }
+
+  public subscribe(videoId: string, listener: ProgressSyncListener): () => void {
+    if (!this.listeners.has(videoId)) {
+      this.listeners.set(videoId, new Set());
+    }
+    this.listeners.get(videoId).add(listener);
+    return () => {
+      this.listeners.get(videoId)?.delete(listener);
+    };
+  }
+
+  /**
+   * Stop listening to other tabs and drop all listeners
+   */
+  public close(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    } else if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+    this.listeners.clear();
+  }
+}
+
+let sharedSync: CrossTabProgressSync | null = null;
+
+/**
+ * The sync instance shared by every tracker on the page
+ *
+ * @returns A lazily created CrossTabProgressSync
+ */
+export function getSharedProgressSync(): CrossTabProgressSync {
+  if (!sharedSync) {
+    sharedSync = new CrossTabProgressSync();
+  }
+  return sharedSync;
+}
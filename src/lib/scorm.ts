@@ -0,0 +1,396 @@
+/**
+ * SCORM Runtime Bridge
+ *
+ * Reports tracker progress to an LMS through the SCORM 1.2 (`API`) or
+ * SCORM 2004 (`API_1484_11`) runtime, and restores it on the next launch:
+ *
+ * - the resume point goes to cmi.location (cmi.core.lesson_location in 1.2)
+ * - progress goes to cmi.progress_measure (2004 only)
+ * - watched intervals go to cmi.suspend_data
+ * - completion goes to cmi.completion_status (cmi.core.lesson_status in 1.2)
+ */
+
+import type { VideoProgressData, WatchedInterval } from '@/lib/videoProgressTracker';
+
+export interface Scorm12Api {
+  LMSInitialize(parameter: ''): string;
+  LMSFinish(parameter: ''): string;
+  LMSGetValue(element: string): string;
+  LMSSetValue(element: string, value: string): string;
+  LMSCommit(parameter: ''): string;
+  LMSGetLastError(): string;
+  LMSGetErrorString(errorCode: string): string;
+  LMSGetDiagnostic(errorCode: string): string;
+}
+
+export interface Scorm2004Api {
+  Initialize(parameter: ''): string;
+  Terminate(parameter: ''): string;
+  GetValue(element: string): string;
+  SetValue(element: string, value: string): string;
+  Commit(parameter: ''): string;
+  GetLastError(): string;
+  GetErrorString(errorCode: string): string;
+  GetDiagnostic(errorCode: string): string;
+}
+
+export type ScormVersion = '1.2' | '2004';
+
+export type ScormApiHandle =
+  | { version: '1.2'; api: Scorm12Api }
+  | { version: '2004'; api: Scorm2004Api };
+
+type ScormWindow = Window & { API?: Scorm12Api; API_1484_11?: Scorm2004Api };
+
+/**
+ * Look for a SCORM API in a window and its parents
+ */
+function searchWindowChain(start: Window, maxDepth: number): ScormApiHandle | null {
+  let current = start as ScormWindow;
+  for (let depth = 0; depth <= maxDepth && current; depth++) {
+    try {
+      if (current.API_1484_11) return { version: '2004', api: current.API_1484_11 };
+      if (current.API) return { version: '1.2', api: current.API };
+    } catch {
+      // A cross-origin frame; nothing further up is reachable
+      return null;
+    }
+    if (current.parent === current) break;
+    current = current.parent as ScormWindow;
+  }
+  return null;
+}
+
+/**
+ * Find the LMS-provided SCORM API, searching parent frames and then the
+ * opener's frames as the SCORM runtime specifications describe. SCORM 2004
+ * is preferred when both are present.
+ *
+ * @param win - The window to start from
+ * @param maxDepth - How many parent frames to climb
+ * @returns The API and its version, or null if none was found
+ */
+export function findScormApi(win: Window = window, maxDepth: number = 10): ScormApiHandle | null {
+  const found = searchWindowChain(win, maxDepth);
+  if (found) return found;
+  try {
+    return win.opener ? searchWindowChain(win.opener as Window, maxDepth) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Data-model element names for each SCORM version
+ */
+const ELEMENTS: Record<ScormVersion, {
+  location: string;
+  suspendData: string;
+  completion: string;
+  progress: string | null;
+  exit: string;
+  sessionTime: string;
+}> = {
+  '1.2': {
+    location: 'cmi.core.lesson_location',
+    suspendData: 'cmi.suspend_data',
+    completion: 'cmi.core.lesson_status',
+    progress: null,
+    exit: 'cmi.core.exit',
+    sessionTime: 'cmi.core.session_time'
+  },
+  '2004': {
+    location: 'cmi.location',
+    suspendData: 'cmi.suspend_data',
+    completion: 'cmi.completion_status',
+    progress: 'cmi.progress_measure',
+    exit: 'cmi.exit',
+    sessionTime: 'cmi.session_time'
+  }
+};
+
+/** Default longest suspend data each version guarantees */
+const MAX_SUSPEND_DATA_LENGTH: Record<ScormVersion, number> = {
+  '1.2': 4096,
+  '2004': 64000
+};
+
+const SUSPEND_DATA_PREFIX = 'tvp1:';
+
+/**
+ * What the bridge keeps in cmi.suspend_data
+ */
+export interface ScormSuspendData {
+  intervals: WatchedInterval[];
+  /** Duration the intervals were recorded against, 0 if unknown */
+  trackedDuration: number;
+}
+
+/**
+ * Serialize progress for cmi.suspend_data, e.g. "tvp1:600|0-12.5,30-45".
+ * If the result is too long, boundaries are rounded inwards to whole
+ * seconds and then the shortest intervals are dropped, so the LMS never
+ * receives more watched time than was actually watched.
+ *
+ * @param data - Merged watched intervals and the duration they were recorded against
+ * @param maxLength - Longest string the LMS accepts
+ * @returns The suspend data string
+ */
+export function serializeSuspendData(data: ScormSuspendData, maxLength: number): string {
+  const format = (list: WatchedInterval[], decimals: number) =>
+    `${SUSPEND_DATA_PREFIX}${Number(data.trackedDuration.toFixed(1))}|` + list.map(interval =>
+      `${Number(interval.start.toFixed(decimals))}-${Number(interval.end.toFixed(decimals))}`
+    ).join(',');
+
+  const precise = format(data.intervals, 1);
+  if (precise.length <= maxLength) return precise;
+
+  let coarse = data.intervals
+    .map(interval => ({ start: Math.ceil(interval.start), end: Math.floor(interval.end) }))
+    .filter(interval => interval.end > interval.start);
+  while (coarse.length > 0 && format(coarse, 0).length > maxLength) {
+    const shortest = coarse.reduce((min, interval, index) =>
+      interval.end - interval.start < coarse[min].end - coarse[min].start ? index : min, 0);
+    coarse = coarse.filter((_, index) => index !== shortest);
+  }
+  return format(coarse, 0);
+}
+
+/**
+ * Parse suspend data written by serializeSuspendData
+ *
+ * @param suspendData - The stored string
+ * @returns The saved progress, or null if the data was not written by this bridge
+ */
+export function parseSuspendData(suspendData: string): ScormSuspendData | null {
+  if (!suspendData.startsWith(SUSPEND_DATA_PREFIX)) return null;
+  const [durationPart, body = ''] = suspendData.slice(SUSPEND_DATA_PREFIX.length).split('|');
+  const trackedDuration = Number(durationPart);
+  if (!Number.isFinite(trackedDuration) || trackedDuration < 0) return null;
+
+  const intervals: WatchedInterval[] = [];
+  for (const part of body ? body.split(',') : []) {
+    const [start, end] = part.split('-').map(Number);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start > end) return null;
+    intervals.push({ start, end });
+  }
+  return { intervals, trackedDuration };
+}
+
+/**
+ * Format seconds as SCORM 1.2 CMITimespan (HHHH:MM:SS.SS)
+ */
+function formatScorm12Time(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainder = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${String(hours).padStart(4, '0')}:${String(minutes).padStart(2, '0')}:${remainder}`;
+}
+
+/**
+ * Format seconds as a SCORM 2004 timeinterval (ISO 8601 duration)
+ */
+function formatScorm2004Time(seconds: number): string {
+  return `PT${Math.round(seconds * 100) / 100}S`;
+}
+
+/**
+ * Calls into either SCORM version through one interface
+ */
+export class ScormConnection {
+  public readonly version: ScormVersion;
+  private handle: ScormApiHandle;
+  private isActive: boolean = false;
+
+  /**
+   * @param handle - The API found by findScormApi
+   */
+  constructor(handle: ScormApiHandle) {
+    this.handle = handle;
+    this.version = handle.version;
+  }
+
+  private check(result: string, operation: string): boolean {
+    if (result === 'true') return true;
+    const code = this.handle.version === '2004' ? this.handle.api.GetLastError() : this.handle.api.LMSGetLastError();
+    const message = this.handle.version === '2004'
+      ? this.handle.api.GetErrorString(code)
+      : this.handle.api.LMSGetErrorString(code);
+    console.error(`Error in SCORM ${operation}:`, `${code} ${message}`);
+    return false;
+  }
+
+  public initialize(): boolean {
+    if (this.isActive) return true;
+    const result = this.handle.version === '2004' ? this.handle.api.Initialize('') : this.handle.api.LMSInitialize('');
+    this.isActive = this.check(result, 'Initialize');
+    return this.isActive;
+  }
+
+  public terminate(): boolean {
+    if (!this.isActive) return false;
+    this.isActive = false;
+    const result = this.handle.version === '2004' ? this.handle.api.Terminate('') : this.handle.api.LMSFinish('');
+    return this.check(result, 'Terminate');
+  }
+
+  public getValue(element: string): string {
+    if (!this.isActive) return '';
+    return this.handle.version === '2004' ? this.handle.api.GetValue(element) : this.handle.api.LMSGetValue(element);
+  }
+
+  public setValue(element: string, value: string): boolean {
+    if (!this.isActive) return false;
+    const result = this.handle.version === '2004'
+      ? this.handle.api.SetValue(element, value)
+      : this.handle.api.LMSSetValue(element, value);
+    return this.check(result, `SetValue(${element})`);
+  }
+
+  public commit(): boolean {
+    if (!this.isActive) return false;
+    const result = this.handle.version === '2004' ? this.handle.api.Commit('') : this.handle.api.LMSCommit('');
+    return this.check(result, 'Commit');
+  }
+
+  public isInitialized(): boolean {
+    return this.isActive;
+  }
+}
+
+/**
+ * Progress restored from the LMS, in the shape mergeRemoteProgress accepts
+ */
+export interface ScormSavedProgress extends ScormSuspendData {
+  videoId: string;
+  lastPosition: number;
+  updatedAt: string;
+  schemaVersion: number;
+}
+
+export interface ScormProgressBridgeOptions {
+  /** Minimum time between commits of routine progress updates */
+  commitIntervalMs?: number;
+  /** Longest suspend data to write; defaults to the version's guaranteed minimum */
+  maxSuspendDataLength?: number;
+}
+
+/**
+ * Writes tracker progress to the LMS and reads it back on launch
+ */
+export class ScormProgressBridge {
+  private connection: ScormConnection;
+  private commitIntervalMs: number;
+  private maxSuspendDataLength: number;
+  private lastCommitAt: number = 0;
+  private sessionStartedAt: number = Date.now();
+  private lastData: VideoProgressData | null = null;
+  private isFinished: boolean = false;
+
+  /**
+   * @param connection - An initialized (or initializable) SCORM connection
+   * @param options - Commit throttling and suspend data limits
+   */
+  constructor(connection: ScormConnection, options: ScormProgressBridgeOptions = {}) {
+    this.connection = connection;
+    this.commitIntervalMs = options.commitIntervalMs ?? 30000;
+    this.maxSuspendDataLength = options.maxSuspendDataLength ?? MAX_SUSPEND_DATA_LENGTH[connection.version];
+  }
+
+  /**
+   * Find the LMS API and connect to it
+   *
+   * @param win - The window to start searching from
+   * @param options - Commit throttling and suspend data limits
+   * @returns A bridge with an initialized connection, or null outside an LMS
+   */
+  public static connect(win: Window = window, options: ScormProgressBridgeOptions = {}): ScormProgressBridge | null {
+    const handle = findScormApi(win);
+    if (!handle) return null;
+    const connection = new ScormConnection(handle);
+    return connection.initialize() ? new ScormProgressBridge(connection, options) : null;
+  }
+
+  /**
+   * Read the progress saved in the LMS by an earlier launch
+   *
+   * @param videoId - The video the progress belongs to
+   * @returns A payload for the tracker's mergeRemoteProgress, or null if nothing usable was saved
+   */
+  public restore(videoId: string): ScormSavedProgress | null {
+    const elements = ELEMENTS[this.connection.version];
+    const saved = parseSuspendData(this.connection.getValue(elements.suspendData));
+    if (!saved) return null;
+
+    const location = Number(this.connection.getValue(elements.location));
+    return {
+      videoId,
+      intervals: saved.intervals,
+      trackedDuration: saved.trackedDuration,
+      lastPosition: Number.isFinite(location) && location > 0 ? location : 0,
+      // The LMS resume point is authoritative for a fresh launch
+      updatedAt: new Date().toISOString(),
+      // Suspend data keeps only version 2 fields; migration fills in the rest
+      schemaVersion: 2
+    };
+  }
+
+  /**
+   * Write the latest progress to the LMS. Commits are throttled, except
+   * when the video has just been completed.
+   *
+   * @param data - Progress data from the tracker's onProgressUpdate
+   */
+  public handleProgressUpdate(data: VideoProgressData): void {
+    if (this.isFinished) return;
+    const wasComplete = this.lastData?.completedAt != null;
+    this.lastData = data;
+    this.writeProgress(data);
+
+    const isNewlyComplete = data.completedAt !== null && !wasComplete;
+    if (isNewlyComplete || Date.now() - this.lastCommitAt >= this.commitIntervalMs) {
+      this.lastCommitAt = Date.now();
+      this.connection.commit();
+    }
+  }
+
+  private writeProgress(data: VideoProgressData): void {
+    const elements = ELEMENTS[this.connection.version];
+    this.connection.setValue(elements.location, String(Math.round(data.lastPosition * 10) / 10));
+    this.connection.setValue(elements.suspendData, serializeSuspendData(
+      { intervals: data.intervals, trackedDuration: data.trackedDuration },
+      this.maxSuspendDataLength
+    ));
+    if (elements.progress) {
+      const measure = Math.min(1, Math.max(0, data.totalProgress / 100));
+      this.connection.setValue(elements.progress, measure.toFixed(3));
+    }
+
+    const status = data.completedAt !== null
+      ? 'completed'
+      : data.intervals.length > 0 ? 'incomplete' : null;
+    if (status) {
+      this.connection.setValue(elements.completion, status);
+    }
+  }
+
+  /**
+   * Record the session time, commit and terminate. Call when the learner
+   * leaves, e.g. on pagehide. Safe to call more than once.
+   */
+  public finish(): void {
+    if (this.isFinished) return;
+    this.isFinished = true;
+
+    const elements = ELEMENTS[this.connection.version];
+    const sessionSeconds = (Date.now() - this.sessionStartedAt) / 1000;
+    this.connection.setValue(
+      elements.sessionTime,
+      this.connection.version === '2004' ? formatScorm2004Time(sessionSeconds) : formatScorm12Time(sessionSeconds)
+    );
+    // Keep suspend data for the next launch unless the video is done
+    this.connection.setValue(elements.exit, this.lastData?.completedAt ? '' : 'suspend');
+    this.connection.commit();
+    this.connection.terminate();
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Stream Source
+ *
+ * Detects what kind of media a URL points to, so the player can hand
+ * progressive files to the <video> element and adaptive manifests
+ * (HLS, DASH) to a Media Source Extensions player.
+ */
+
+export type StreamSourceType = 'mp4' | 'webm' | 'ogg' | 'hls' | 'dash';
+
+export const SOURCE_MIME_TYPES: Record<StreamSourceType, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  ogg: 'video/ogg',
+  hls: 'application/vnd.apple.mpegurl',
+  dash: 'application/dash+xml'
+};
+
+const EXTENSION_TYPES: Record<string, StreamSourceType> = {
+  mp4: 'mp4',
+  m4v: 'mp4',
+  mov: 'mp4',
+  webm: 'webm',
+  ogv: 'ogg',
+  ogg: 'ogg',
+  m3u8: 'hls',
+  mpd: 'dash'
+};
+
+/**
+ * One rendition of an adaptive stream
+ */
+export interface QualityLevel {
+  /** Index to pass back when selecting this level */
+  index: number;
+  height: number;
+  bitrate: number;
+  label: string;
+}
+
+/**
+ * Work out the source type of a media URL from its file extension,
+ * ignoring any query string or fragment (e.g. CDN signatures)
+ *
+ * @param url - The media URL
+ * @param explicitType - A MIME type or source type supplied by the caller, which wins if recognised
+ * @returns The detected type; unknown extensions are treated as mp4
+ */
+export function detectSourceType(url: string, explicitType?: string): StreamSourceType {
+  if (explicitType) {
+    const fromMime = (Object.keys(SOURCE_MIME_TYPES) as StreamSourceType[]).find(
+      type => type === explicitType || SOURCE_MIME_TYPES[type] === explicitType
+    );
+    if (fromMime) return fromMime;
+    if (explicitType === 'application/x-mpegurl') return 'hls';
+  }
+
+  const path = url.split(/[?#]/)[0];
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return EXTENSION_TYPES[extension] || 'mp4';
+}
+
+/**
+ * Whether a source type needs an adaptive streaming player
+ *
+ * @param type - The source type
+ * @returns True for HLS and DASH
+ */
+export function isAdaptiveSource(type: StreamSourceType): boolean {
+  return type === 'hls' || type === 'dash';
+}
+
+/**
+ * Build a human-readable label for a quality level
+ *
+ * @param height - Frame height in pixels, 0 if unknown
+ * @param bitrate - Bitrate in bits per second
+ * @returns A label such as "720p (2.5 Mbps)"
+ */
+export function formatQualityLabel(height: number, bitrate: number): string {
+  const mbps = bitrate / 1_000_000;
+  const rate = mbps >= 1 ? `${mbps.toFixed(1)} Mbps` : `${Math.round(bitrate / 1000)} kbps`;
+  return height > 0 ? `${height}p (${rate})` : rate;
+}
@@ -0,0 +1,96 @@
+/**
+ * Typed Event Emitter
+ *
+ * A small event bus whose event names and payload types come from an
+ * event map, e.g. `TypedEventEmitter<{ progress: VideoProgressData }>`.
+ * A listener that throws is logged and does not stop the others.
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Listen for an event
+   *
+   * @param type - The event to listen for
+   * @param listener - Called with the event's payload
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type).add(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Stop listening for an event
+   *
+   * @param type - The event
+   * @param listener - The listener passed to on
+   */
+  public off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Listen for the next occurrence of an event only
+   *
+   * @param type - The event to listen for
+   * @param listener - Called with the event's payload
+   * @returns A function that removes the listener before it has fired
+   */
+  public once<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    const wrapper: EventListener<Events[K]> = payload => {
+      this.off(type, wrapper);
+      listener(payload);
+    };
+    return this.on(type, wrapper);
+  }
+
+  /**
+   * Number of listeners for an event
+   *
+   * @param type - The event
+   * @returns How many listeners are registered
+   */
+  public listenerCount<K extends keyof Events>(type: K): number {
+    return this.listeners.get(type)?.size ?? 0;
+  }
+
+  /**
+   * Remove every listener, or every listener for one event
+   *
+   * @param type - The event to clear; all events when omitted
+   */
+  public removeAllListeners<K extends keyof Events>(type?: K): void {
+    if (type === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(type);
+    }
+  }
+
+  /**
+   * Notify listeners of an event
+   *
+   * @param type - The event to emit
+   * @param payload - The event's payload
+   */
+  protected emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners || listeners.size === 0) return;
+
+    // Snapshot so listeners added or removed while emitting don't affect this emit
+    [...listeners].forEach(listener => {
+      try {
+        (listener as EventListener<Events[K]>)(payload);
+      } catch (error) {
+        console.error(`Error handling ${String(type)} event:`, error);
+      }
+    });
+  }
+}
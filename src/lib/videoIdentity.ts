@@ -0,0 +1,184 @@
+/**
+ * Video Identity
+ *
+ * Strategies for deriving the key progress is stored under. Older builds
+ * keyed progress by the URL's filename, so `a/lecture1.mp4` and
+ * `b/lecture1.mp4` collided and a changing CDN query string broke resume.
+ * rekeyProgress moves those legacy records to the new key.
+ */
+
+import { AnyProgressStore } from '@/lib/progressStore';
+import { DEFAULT_DURATION_RECONCILIATION, hasDurationMismatch } from '@/lib/durationReconciliation';
+
+/**
+ * What a strategy knows about the video when asked for its ID
+ */
+export interface VideoIdContext {
+  videoUrl: string;
+  /** Duration in seconds, 0 until metadata has loaded */
+  duration: number;
+}
+
+/**
+ * Derives a stable video ID. Returns null when it needs more information
+ * (e.g. the duration) and should be asked again later.
+ */
+export type VideoIdStrategy = (context: VideoIdContext) => string | null | Promise<string | null>;
+
+/**
+ * Hash a string to 14 hex characters (cyrb53). Not cryptographic; only
+ * used to turn a normalized URL into a compact key.
+ *
+ * @param value - String to hash
+ * @returns Hex digest
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Normalize a media URL so signed or cache-busting variants of the same
+ * file map to one ID: the query string and fragment are dropped and the
+ * host is lower-cased.
+ *
+ * @param videoUrl - The media URL
+ * @returns The normalized URL
+ */
+export function normalizeVideoUrl(videoUrl: string): string {
+  try {
+    const url = new URL(videoUrl, 'http://localhost');
+    return `${url.protocol}//${url.host.toLowerCase()}${url.pathname}`;
+  } catch {
+    return videoUrl.split(/[?#]/)[0];
+  }
+}
+
+/**
+ * The ID older builds derived from a URL (its last path segment)
+ *
+ * @param videoUrl - The media URL
+ * @returns The legacy video ID
+ */
+export function legacyVideoId(videoUrl: string): string {
+  return videoUrl.split('/').pop() || '';
+}
+
+/**
+ * ID from a hash of the normalized URL. Available immediately.
+ */
+export const urlHashStrategy: VideoIdStrategy = ({ videoUrl }) =>
+  `url-${hashString(normalizeVideoUrl(videoUrl))}`;
+
+export interface ContentFingerprintOptions {
+  /** Number of leading bytes to hash */
+  byteCount?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Read up to `byteCount` bytes from the start of a resource. Asks for a
+ * byte range, and stops reading early if the server sends the whole file.
+ */
+async function readLeadingBytes(fetchImpl: typeof fetch, url: string, byteCount: number): Promise<Uint8Array> {
+  const response = await fetchImpl(url, { headers: { Range: `bytes=0-${byteCount - 1}` } });
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} failed with status ${response.status}`);
+  }
+
+  const bytes = new Uint8Array(byteCount);
+  let length = 0;
+  const reader = response.body.getReader();
+  while (length < byteCount) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = value.subarray(0, byteCount - length);
+    bytes.set(chunk, length);
+    length += chunk.length;
+  }
+  await reader.cancel();
+  return bytes.subarray(0, length);
+}
+
+/**
+ * ID from a SHA-256 of the file's first bytes plus its duration, so the
+ * same file keeps its progress when it moves to another URL. Waits for the
+ * duration, and falls back to the URL hash when the bytes can't be read
+ * (e.g. the server does not allow CORS).
+ *
+ * @param options - Bytes to hash and an optional fetch implementation
+ * @returns The strategy
+ */
+export function contentFingerprintStrategy(options: ContentFingerprintOptions = {}): VideoIdStrategy {
+  const byteCount = options.byteCount ?? 64 * 1024;
+  const fetchImpl = options.fetch ?? fetch.bind(globalThis);
+
+  return async (context) => {
+    if (context.duration <= 0) return null;
+
+    try {
+      const bytes = await readLeadingBytes(fetchImpl, context.videoUrl, byteCount);
+      const durationBytes = new TextEncoder().encode(`:${Math.round(context.duration)}`);
+      const input = new Uint8Array(bytes.length + durationBytes.length);
+      input.set(bytes);
+      input.set(durationBytes, bytes.length);
+
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+      const hex = Array.from(digest.subarray(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+      return `fp-${hex}`;
+    } catch (error) {
+      console.error('Error fingerprinting video, falling back to URL hash:', error);
+      return urlHashStrategy(context);
+    }
+  };
+}
+
+/**
+ * Move saved progress, and the session log if the store keeps one, from
+ * one video ID to another. Nothing is moved if the target already has
+ * progress, so calling this on every load is safe.
+ *
+ * A legacy filename ID can be shared by several videos, so pass the
+ * video's duration to only move a record tracked against that duration.
+ * Records that don't say what duration they were tracked against are
+ * then left in place.
+ *
+ * @param store - The store holding the progress
+ * @param fromId - The old video ID
+ * @param toId - The new video ID
+ * @param duration - Optional duration in seconds the record must have been tracked against
+ * @returns True if a record was moved
+ */
+export async function rekeyProgress(
+  store: AnyProgressStore,
+  fromId: string,
+  toId: string,
+  duration?: number
+): Promise<boolean> {
+  if (!fromId || fromId === toId) return false;
+
+  const [existing, legacy] = await Promise.all([store.load(toId), store.load(fromId)]);
+  if (existing || !legacy) return false;
+  if (duration !== undefined) {
+    const recordedDuration = legacy.trackedDuration || 0;
+    if (recordedDuration <= 0 || duration <= 0 ||
+      hasDurationMismatch(recordedDuration, duration, DEFAULT_DURATION_RECONCILIATION.tolerance)) {
+      return false;
+    }
+  }
+
+  await store.save(toId, { ...legacy, videoId: toId });
+  if (store.moveSessionLog) {
+    await store.moveSessionLog(fromId, toId);
+  }
+  await store.remove(fromId);
+  return true;
+}
@@ -5,93 +5,635 @@
  * and calculating accurate viewing progress.
  */
 
+import {
+  AnyProgressStore,
+  LocalStorageProgressStore,
+  SessionLogEntry,
+  StoredProgress,
+  isPromiseLike
+} from '@/lib/progressStore';
+import { CURRENT_SCHEMA_VERSION, parseProgressPayload } from '@/lib/progressSchema';
+import { DEFAULT_HEATMAP_BUCKET_SIZE, HeatmapData, ViewHeatmap } from '@/lib/viewHeatmap';
+import {
+  CompletionRules,
+  CompletionStatus,
+  DEFAULT_COMPLETION_RULES,
+  evaluateCompletion
+} from '@/lib/completionRules';
+import {
+  Chapter,
+  ChapterProgress,
+  computeChapterProgress,
+  getRequiredChapterSegments
+} from '@/lib/chapters';
+import {
+  DEFAULT_DURATION_RECONCILIATION,
+  DurationMismatchEvent,
+  DurationReconciliation,
+  createTimeMapping,
+  hasDurationMismatch,
+  remapIntervals
+} from '@/lib/durationReconciliation';
+import { ProgressSync, ProgressSyncMessage } from '@/lib/progressSync';
+import { ServerProgress, ServerProgressSync, subtractIntervals } from '@/lib/offlineSync';
+import { TypedEventEmitter } from '@/lib/typedEventEmitter';
+
 export interface WatchedInterval {
   start: number;
   end: number;
 }
 
+/**
+ * How segments watched at high playback rates are credited
+ */
+export interface PlaybackRatePolicy {
+  /** Highest playback rate that still earns full credit */
+  maxFullCreditRate: number;
+  /**
+   * Credit for segments watched above maxFullCreditRate:
+   * - 'scaled': the interval is shortened by maxFullCreditRate / rate, so 4x
+   *   with a 2x limit credits half of the segment
+   * - 'none': the segment is not credited at all
+   */
+  overRateCredit: 'scaled' | 'none';
+}
+
+export const DEFAULT_PLAYBACK_RATE_POLICY: PlaybackRatePolicy = {
+  maxFullCreditRate: 2,
+  overRateCredit: 'scaled'
+};
+
+/**
+ * How media time is checked against real elapsed time before it is credited
+ */
+export interface WallClockVerification {
+  enabled: boolean;
+  /** Fraction by which media time may outpace wall-clock time x playback rate */
+  tolerance: number;
+  /** Extra seconds allowed per segment to absorb event timing jitter */
+  graceSeconds: number;
+}
+
+export const DEFAULT_WALL_CLOCK_VERIFICATION: WallClockVerification = {
+  enabled: true,
+  tolerance: 0.25,
+  graceSeconds: 1.5
+};
+
+/**
+ * A segment that was not credited because its media time was not backed
+ * by enough real elapsed time
+ */
+export interface SuspiciousSegment extends WatchedInterval {
+  wallClockSeconds: number;
+  playbackRate: number;
+  detectedAt: string;
+}
+
 export interface VideoProgressData {
   intervals: WatchedInterval[];
   lastPosition: number;
   totalProgress: number;
   videoId: string;
   updatedAt: string;
+  schemaVersion: number;
+  playbackRatePolicy: PlaybackRatePolicy;
+  suspiciousSegments: SuspiciousSegment[];
+  heatmap: HeatmapData;
+  /** When the completion rules were first met, or null if not yet complete */
+  completedAt: string | null;
+  /** Duration in seconds the intervals were recorded against, 0 if unknown */
+  trackedDuration: number;
 }
 
-export class VideoProgressTracker {
+/**
+ * Playback activity reported by the tracker, e.g. for learning analytics.
+ * Segments are what was played, before any crediting rules are applied.
+ */
+export type TrackingEvent =
+  | { type: 'play'; position: number }
+  | { type: 'pause'; position: number; segment: WatchedInterval; progress: number }
+  | { type: 'seek'; from: number; to: number; segment: WatchedInterval | null; progress: number }
+  | { type: 'complete'; position: number; progress: number };
+
+export type StorageOperation = 'load' | 'save' | 'remove' | 'logSession';
+
+/**
+ * Events the tracker emits to listeners added with `on` or `once`, with
+ * their payloads
+ */
+export interface TrackerEventMap {
+  /** A credited segment has started */
+  segmentStart: { position: number };
+  /** A credited segment has ended; `credited` is null if it was too short or earned no credit */
+  segmentEnd: { segment: WatchedInterval; credited: WatchedInterval | null; progress: number };
+  play: Extract<TrackingEvent, { type: 'play' }>;
+  pause: Extract<TrackingEvent, { type: 'pause' }>;
+  seek: Extract<TrackingEvent, { type: 'seek' }>;
+  /** Progress was saved, merged or reloaded */
+  progress: VideoProgressData;
+  /** The completion rules were met for the first time */
+  complete: VideoProgressData;
+  reset: VideoProgressData;
+  import: VideoProgressData;
+  durationMismatch: DurationMismatchEvent;
+  /** A segment failed wall-clock verification */
+  suspiciousSegment: SuspiciousSegment;
+  /** The progress store failed; progress keeps being tracked in memory */
+  storageError: { operation: StorageOperation; error: unknown };
+}
+
+export type TrackerEventType = keyof TrackerEventMap;
+
+/**
+ * The shape written by exportProgressData
+ */
+export interface ExportedProgressData extends VideoProgressData {
+  exportedAt: string;
+}
+
+export interface VideoProgressTrackerOptions {
+  /** Where progress is persisted. Defaults to localStorage. */
+  store?: AnyProgressStore;
+  /** How high playback rates are credited. Defaults to DEFAULT_PLAYBACK_RATE_POLICY. */
+  playbackRatePolicy?: Partial<PlaybackRatePolicy>;
+  /** How media time is verified against wall-clock time. Defaults to DEFAULT_WALL_CLOCK_VERIFICATION. */
+  wallClockVerification?: Partial<WallClockVerification>;
+  /** Width in seconds of each view-count heatmap bucket. Defaults to 1. */
+  heatmapBucketSize?: number;
+  /** When the video counts as completed. Defaults to DEFAULT_COMPLETION_RULES. */
+  completionRules?: Partial<CompletionRules>;
+  /** Chapters of the video; required chapters must be watched in full to complete */
+  chapters?: Chapter[];
+  /** Called once, the first time the completion rules are met. Shorthand for a `complete` listener. */
+  onComplete?: (data: VideoProgressData) => void;
+  /** How saved progress is carried over when the video's duration has changed. Defaults to DEFAULT_DURATION_RECONCILIATION. */
+  durationReconciliation?: Partial<DurationReconciliation>;
+  /** Called on play, pause, seek and completion. Shorthand for listeners on those events. */
+  onTrackingEvent?: (event: TrackingEvent) => void;
+  /** Called when saved progress was recorded against a different duration and has been reconciled. Shorthand for a `durationMismatch` listener. */
+  onDurationMismatch?: (event: DurationMismatchEvent) => void;
+  /** Shares saves with other trackers for the same video, e.g. in other tabs */
+  sync?: ProgressSync;
+  /** Queues newly watched intervals for a progress server and merges its record back */
+  serverSync?: ServerProgressSync;
+  /** Clock returning milliseconds. Defaults to Date.now; override in tests. */
+  now?: () => number;
+}
+
+export class VideoProgressTracker extends TypedEventEmitter<TrackerEventMap> {
   private videoId: string;
   private watchedIntervals: WatchedInterval[] = [];
   private lastPosition: number = 0;
   private duration: number = 0;
+  private trackedDuration: number = 0;
+  /** Set while loaded progress waits for the duration to be known before it is reconciled */
+  private isReconciliationPending: boolean = false;
   private trackingStartTime: number = 0;
+  private trackingStartWallClock: number = 0;
   private isTracking: boolean = false;
-  private storageKey: string;
+  private isPlaying: boolean = false;
+  private playStartPosition: number = 0;
+  private isCreditingSuspended: boolean = false;
+  private resumeTrackingOnCredit: boolean = false;
+  private store: AnyProgressStore;
   private totalProgress: number = 0;
-  private onProgressUpdate?: (data: VideoProgressData) => void;
+  private playbackRate: number = 1;
+  private playbackRatePolicy: PlaybackRatePolicy;
+  private wallClockVerification: WallClockVerification;
+  private suspiciousSegments: SuspiciousSegment[] = [];
+  private heatmap: ViewHeatmap;
+  private completionRules: CompletionRules;
+  private completedAt: string | null = null;
+  private chapters: Chapter[] = [];
+  private durationReconciliation: DurationReconciliation;
+  private sync?: ProgressSync;
+  private syncSourceId: string = Math.random().toString(36).slice(2);
+  private unsubscribeSync?: () => void;
+  private serverSync?: ServerProgressSync;
+  private unsubscribeServerSync?: () => void;
+  private updatedAt: string;
+  private now: () => number;
 
   /**
    * Creates a new VideoProgressTracker instance
    * 
    * @param videoId - Unique identifier for the video
    * @param duration - Duration of the video in seconds
-   * @param onProgressUpdate - Optional callback function called when progress is updated
+   * @param onProgressUpdate - Optional callback function called when progress is updated; shorthand for a progress listener
+   * @param options - Optional tracker configuration, such as the progress store and playback rate policy
    */
   constructor(
     videoId: string, 
     duration: number = 0, 
-    onProgressUpdate?: (data: VideoProgressData) => void
+    onProgressUpdate?: (data: VideoProgressData) => void,
+    options: VideoProgressTrackerOptions = {}
   ) {
+    super();
     this.videoId = videoId;
     this.duration = duration;
-    this.storageKey = `videoProgress-${videoId}`;
-    this.onProgressUpdate = onProgressUpdate;
+    this.trackedDuration = this.hasKnownDuration() ? duration : 0;
+    this.store = options.store || new LocalStorageProgressStore();
+    this.playbackRatePolicy = { ...DEFAULT_PLAYBACK_RATE_POLICY, ...options.playbackRatePolicy };
+    this.wallClockVerification = { ...DEFAULT_WALL_CLOCK_VERIFICATION, ...options.wallClockVerification };
+    this.now = options.now || Date.now;
+    this.heatmap = new ViewHeatmap(options.heatmapBucketSize ?? DEFAULT_HEATMAP_BUCKET_SIZE);
+    this.completionRules = { ...DEFAULT_COMPLETION_RULES, ...options.completionRules };
+    this.chapters = options.chapters || [];
+    this.durationReconciliation = { ...DEFAULT_DURATION_RECONCILIATION, ...options.durationReconciliation };
+    this.addCallbackListeners(onProgressUpdate, options);
+    this.updatedAt = new Date(this.now()).toISOString();
     this.loadSavedProgress();
+
+    if (options.sync) {
+      this.sync = options.sync;
+      this.unsubscribeSync = this.sync.subscribe(videoId, (message: ProgressSyncMessage) => {
+        if (message.sourceId !== this.syncSourceId) {
+          this.mergeRemoteProgress(message.data);
+        }
+      });
+    }
+    if (options.serverSync) {
+      this.serverSync = options.serverSync;
+      this.unsubscribeServerSync = this.serverSync.subscribe(videoId, progress => this.mergeServerProgress(progress));
+    }
   }
 
   /**
-   * Loads saved progress from localStorage
+   * Subscribe the constructor's callbacks as ordinary listeners, so every
+   * notification goes through the event emitter
+   * 
+   * @param onProgressUpdate - Shorthand for a progress listener
+   * @param options - onComplete, onTrackingEvent and onDurationMismatch callbacks
+   */
+  private addCallbackListeners(
+    onProgressUpdate: ((data: VideoProgressData) => void) | undefined,
+    { onComplete, onTrackingEvent, onDurationMismatch }: VideoProgressTrackerOptions
+  ): void {
+    if (onProgressUpdate) {
+      this.on('progress', onProgressUpdate);
+    }
+    if (onComplete) {
+      this.on('complete', onComplete);
+    }
+    if (onTrackingEvent) {
+      this.on('play', onTrackingEvent);
+      this.on('pause', onTrackingEvent);
+      this.on('seek', onTrackingEvent);
+      this.on('complete', data => onTrackingEvent({
+        type: 'complete',
+        position: data.lastPosition,
+        progress: data.totalProgress
+      }));
+    }
+    if (onDurationMismatch) {
+      this.on('durationMismatch', onDurationMismatch);
+    }
+  }
+
+  /**
+   * Stop listening for progress synced from other trackers and remove all
+   * listeners, including the constructor's callbacks. Call when the
+   * tracker is no longer used.
+   */
+  public destroy(): void {
+    this.unsubscribeSync?.();
+    this.unsubscribeSync = undefined;
+    this.unsubscribeServerSync?.();
+    this.unsubscribeServerSync = undefined;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Loads saved progress from the store
    */
   private loadSavedProgress(): void {
     try {
-      const savedData = localStorage.getItem(this.storageKey);
-      if (savedData) {
-        const { intervals, lastPos } = JSON.parse(savedData);
-        this.watchedIntervals = intervals || [];
-        this.lastPosition = lastPos || 0;
-        this.calculateProgress();
+      const result = this.store.load(this.videoId);
+      if (isPromiseLike<StoredProgress | null>(result)) {
+        result.then(
+          savedData => this.applySavedProgress(savedData, true),
+          error => this.reportStorageError('load', error)
+        );
+      } else {
+        this.applySavedProgress(result, false);
       }
     } catch (error) {
-      console.error('Error loading saved progress:', error);
+      this.reportStorageError('load', error);
+    }
+  }
+
+  /**
+   * Applies progress read from the store
+   * 
+   * @param savedData - The stored progress, or null if nothing was saved
+   * @param isDeferred - True when the data arrived after construction (async stores),
+   *                     in which case it is merged with anything tracked meanwhile
+   */
+  private applySavedProgress(savedData: StoredProgress | null, isDeferred: boolean): void {
+    if (!savedData) return;
+    let data: VideoProgressData;
+    try {
+      data = parseProgressPayload(savedData, { videoId: this.videoId, duration: this.duration });
+    } catch (error) {
+      this.reportStorageError('load', error);
+      return;
+    }
+    const mismatch = this.reconcileSavedProgress(data);
+    const { intervals, lastPosition, suspiciousSegments = [], completedAt = null } = data;
+    this.completedAt = this.completedAt || completedAt;
+    this.heatmap.load(data.heatmap, intervals, isDeferred);
+    if (isDeferred) {
+      if (Date.parse(data.updatedAt) > Date.parse(this.updatedAt)) {
+        this.updatedAt = data.updatedAt;
+      }
+      this.watchedIntervals = this.mergeIntervals([...this.watchedIntervals, ...intervals]);
+      this.suspiciousSegments = [...suspiciousSegments, ...this.suspiciousSegments];
+      if (this.lastPosition === 0) {
+        this.lastPosition = lastPosition;
+      }
+    } else {
+      this.updatedAt = data.updatedAt;
+      this.watchedIntervals = intervals;
+      this.suspiciousSegments = suspiciousSegments;
+      this.lastPosition = lastPosition;
+    }
+    this.calculateProgress();
+    if (this.checkCompletion() || mismatch) {
+      this.saveProgress();
+    } else if (isDeferred) {
+      this.emit('progress', this.getProgressData());
+    }
+    if (mismatch) {
+      this.emit('durationMismatch', { ...mismatch, newProgress: this.totalProgress });
+    }
+  }
+
+  /**
+   * Merge progress saved by another tracker for the same video, e.g. in
+   * another tab. Intervals are unioned and the last position comes from
+   * whichever copy was updated last. The result is only saved if this
+   * tracker has watched something the other copy lacks (or the merge
+   * completes the video), so the store converges on the union without
+   * trackers echoing each other's saves forever.
+   * 
+   * @param payload - Progress data saved by the other tracker
+   * @returns True if the payload was merged
+   */
+  public mergeRemoteProgress(payload: unknown): boolean {
+    let data: VideoProgressData;
+    try {
+      data = parseProgressPayload(payload, { videoId: this.videoId, duration: this.duration });
+    } catch (error) {
+      console.error('Error merging synced progress:', error);
+      return false;
+    }
+    if (data.videoId !== this.videoId) return false;
+
+    this.reconcileSavedProgress(data);
+    const remoteWatched = this.mergeIntervals(data.intervals)
+      .reduce((total, interval) => total + (interval.end - interval.start), 0);
+    this.watchedIntervals = this.mergeIntervals([...this.watchedIntervals, ...data.intervals]);
+    const knownSegments = new Set(this.suspiciousSegments.map(segment => `${segment.start}:${segment.end}:${segment.detectedAt}`));
+    (data.suspiciousSegments || []).forEach(segment => {
+      if (!knownSegments.has(`${segment.start}:${segment.end}:${segment.detectedAt}`)) {
+        this.suspiciousSegments.push(segment);
+      }
+    });
+    if (data.heatmap) {
+      this.heatmap.mergeMax(data.heatmap);
+    }
+    if (data.completedAt && (!this.completedAt || data.completedAt < this.completedAt)) {
+      this.completedAt = data.completedAt;
+    }
+    if (Date.parse(data.updatedAt) > Date.parse(this.updatedAt)) {
+      this.updatedAt = data.updatedAt;
+      this.lastPosition = data.lastPosition;
+    }
+
+    this.calculateProgress();
+    const hasLocalOnlyProgress = this.calculateUniqueWatchedTime() - remoteWatched > 0.01;
+    if (this.checkCompletion() || hasLocalOnlyProgress) {
+      this.saveProgress();
+    } else {
+      this.emit('progress', this.getProgressData());
+    }
+    return true;
+  }
+
+  /**
+   * Bring loaded progress onto the current timeline. If the duration is not
+   * known yet, the recorded duration is kept and setDuration reconciles
+   * once it is.
+   * 
+   * @param data - Parsed progress, updated in place
+   * @returns The mismatch that was reconciled, or null if none
+   */
+  private reconcileSavedProgress(data: VideoProgressData): DurationMismatchEvent | null {
+    const recordedDuration = data.trackedDuration || 0;
+    if (!this.hasKnownDuration()) {
+      this.trackedDuration = this.trackedDuration || recordedDuration;
+      this.isReconciliationPending = this.trackedDuration > 0;
+      return null;
     }
+    this.trackedDuration = this.duration;
+    if (!hasDurationMismatch(recordedDuration, this.duration, this.durationReconciliation.tolerance)) {
+      return null;
+    }
+
+    const previousProgress = this.measureProgress(data.intervals, recordedDuration);
+    const map = createTimeMapping(recordedDuration, this.duration, this.durationReconciliation);
+    data.intervals = map ? this.mergeIntervals(remapIntervals(data.intervals, map)) : [];
+    data.suspiciousSegments = map ? remapIntervals(data.suspiciousSegments || [], map) : [];
+    data.lastPosition = map ? map(data.lastPosition) : 0;
+    // Saved counts are per bucket of the old timeline; rebuild them from the mapped intervals
+    data.heatmap = undefined;
+    data.trackedDuration = this.duration;
+
+    return {
+      videoId: this.videoId,
+      previousDuration: recordedDuration,
+      newDuration: this.duration,
+      strategy: this.durationReconciliation.strategy,
+      previousProgress,
+      newProgress: this.measureProgress(data.intervals, this.duration)
+    };
   }
 
   /**
-   * Saves current progress to localStorage
+   * Move the tracker's own intervals onto a new timeline after the
+   * duration changed
+   * 
+   * @param previousDuration - Duration the intervals were recorded against
+   * @returns The mismatch that was reconciled
+   */
+  private reconcileCurrentProgress(previousDuration: number): DurationMismatchEvent {
+    const previousProgress = this.measureProgress(this.watchedIntervals, previousDuration);
+    const map = createTimeMapping(previousDuration, this.duration, this.durationReconciliation);
+    this.watchedIntervals = map ? this.mergeIntervals(remapIntervals(this.watchedIntervals, map)) : [];
+    this.suspiciousSegments = map ? remapIntervals(this.suspiciousSegments, map) : [];
+    this.lastPosition = map ? map(this.lastPosition) : 0;
+    this.heatmap.load(undefined, this.watchedIntervals);
+    this.calculateProgress();
+
+    return {
+      videoId: this.videoId,
+      previousDuration,
+      newDuration: this.duration,
+      strategy: this.durationReconciliation.strategy,
+      previousProgress,
+      newProgress: this.totalProgress
+    };
+  }
+
+  /**
+   * Log a failed store operation and tell storageError listeners
+   * 
+   * @param operation - What the store was asked to do
+   * @param error - The error it failed with
+   */
+  private reportStorageError(operation: StorageOperation, error: unknown): void {
+    const messages: Record<StorageOperation, string> = {
+      load: 'Error loading saved progress:',
+      save: 'Error saving progress:',
+      remove: 'Error removing progress:',
+      logSession: 'Error logging session:'
+    };
+    console.error(messages[operation], error);
+    this.emit('storageError', { operation, error });
+  }
+
+  /**
+   * Percentage of a duration covered by intervals
+   * 
+   * @param intervals - Watched intervals
+   * @param duration - Duration in seconds
+   * @returns Progress percentage (0-100)
+   */
+  private measureProgress(intervals: WatchedInterval[], duration: number): number {
+    if (duration <= 0) return 0;
+    const watched = this.mergeIntervals(intervals).reduce((total, interval) => total + (interval.end - interval.start), 0);
+    return Math.min((watched / duration) * 100, 100);
+  }
+
+  /**
+   * Saves current progress to the store
    */
   private saveProgress(): void {
     try {
-      const dataToSave = {
-        intervals: this.watchedIntervals,
-        lastPos: this.lastPosition
-      };
-      localStorage.setItem(this.storageKey, JSON.stringify(dataToSave));
+      this.updatedAt = new Date(this.now()).toISOString();
+      const dataToSave: StoredProgress = this.getProgressData();
+      const result = this.store.save(this.videoId, dataToSave);
+      if (isPromiseLike(result)) {
+        result.then(undefined, error => this.reportStorageError('save', error));
+      }
+      if (this.sync) {
+        this.sync.publish({ sourceId: this.syncSourceId, videoId: this.videoId, data: dataToSave });
+      }
       
-      if (this.onProgressUpdate) {
-        this.onProgressUpdate(this.getProgressData());
+      this.emit('progress', dataToSave);
+    } catch (error) {
+      this.reportStorageError('save', error);
+    }
+  }
+
+  /**
+   * Appends a newly watched interval to the store's session log, if it keeps one
+   * 
+   * @param interval - The interval as it was recorded, before merging
+   */
+  private logSession(interval: WatchedInterval): void {
+    if (!this.store.appendSession) return;
+    try {
+      const entry: SessionLogEntry = {
+        videoId: this.videoId,
+        start: interval.start,
+        end: interval.end,
+        addedAt: new Date().toISOString()
+      };
+      const result = this.store.appendSession(entry);
+      if (isPromiseLike(result)) {
+        result.then(undefined, error => this.reportStorageError('logSession', error));
       }
     } catch (error) {
-      console.error('Error saving progress:', error);
+      this.reportStorageError('logSession', error);
+    }
+  }
+
+  /**
+   * Queues a newly watched interval for the progress server, if one is configured
+   * 
+   * @param interval - The interval as it was credited
+   */
+  private queueServerDelta(interval: WatchedInterval): void {
+    if (!this.serverSync) return;
+    try {
+      this.serverSync.enqueue({
+        videoId: this.videoId,
+        start: interval.start,
+        end: interval.end,
+        position: this.lastPosition,
+        recordedAt: this.updatedAt
+      });
+    } catch (error) {
+      console.error('Error queueing progress for sync:', error);
     }
   }
 
   /**
-   * Sets the duration of the video
+   * Union the server's record into local progress, then queue anything
+   * watched here that the server lacks and isn't already queued, such as
+   * progress recorded before server sync was enabled
+   * 
+   * @param progress - The server's record for this video
+   */
+  private mergeServerProgress(progress: ServerProgress): void {
+    // Server records have only the version 2 fields; migration fills in the rest
+    if (!this.mergeRemoteProgress({ ...progress, schemaVersion: 2 })) return;
+
+    const known = [...progress.intervals, ...this.serverSync.getPendingDeltas(this.videoId)];
+    subtractIntervals(this.getMergedIntervals(), known)
+      .filter(interval => interval.end - interval.start >= 0.05)
+      .forEach(interval => this.queueServerDelta(interval));
+  }
+
+  /**
+   * Whether the video's length is known. Live streams report Infinity.
+   */
+  private hasKnownDuration(): boolean {
+    return this.duration > 0 && Number.isFinite(this.duration);
+  }
+
+  /**
+   * Sets the duration of the video. Progress loaded before the duration was
+   * known is reconciled against its recorded duration once; later changes,
+   * such as a live or EVENT playlist growing, leave the intervals as they are.
    * 
    * @param duration - Duration in seconds
    */
   public setDuration(duration: number): void {
+    const previousDuration = this.trackedDuration;
     this.duration = duration;
+    if (!this.hasKnownDuration()) {
+      this.calculateProgress();
+      return;
+    }
+    this.trackedDuration = duration;
+    const shouldReconcile = this.isReconciliationPending;
+    this.isReconciliationPending = false;
+
+    if (shouldReconcile && hasDurationMismatch(previousDuration, duration, this.durationReconciliation.tolerance)) {
+      const mismatch = this.reconcileCurrentProgress(previousDuration);
+      this.checkCompletion();
+      this.saveProgress();
+      this.emit('durationMismatch', mismatch);
+      return;
+    }
+
     this.calculateProgress();
+    if (this.checkCompletion()) {
+      this.saveProgress();
+    }
   }
 
   /**
@@ -100,9 +642,29 @@ export class VideoProgressTracker {
    * @param currentPosition - The current playback position in seconds
    */
   public startTracking(currentPosition: number): void {
+    if (!this.isPlaying) {
+      this.isPlaying = true;
+      this.playStartPosition = currentPosition;
+      this.emit('play', { type: 'play', position: currentPosition });
+    }
+    this.openSegment(currentPosition);
+  }
+
+  /**
+   * Start a credited segment, unless crediting is suspended
+   * 
+   * @param currentPosition - The current playback position in seconds
+   */
+  private openSegment(currentPosition: number): void {
+    if (this.isCreditingSuspended) {
+      this.resumeTrackingOnCredit = true;
+      return;
+    }
     if (!this.isTracking) {
       this.trackingStartTime = currentPosition;
+      this.trackingStartWallClock = this.now();
       this.isTracking = true;
+      this.emit('segmentStart', { position: currentPosition });
     }
   }
 
@@ -112,22 +674,184 @@ export class VideoProgressTracker {
    * @param currentPosition - The current playback position in seconds
    */
   public stopTracking(currentPosition: number): void {
+    this.closeSegment(currentPosition);
+    if (this.isPlaying) {
+      this.isPlaying = false;
+      this.emit('pause', {
+        type: 'pause',
+        position: currentPosition,
+        segment: {
+          start: Math.min(this.playStartPosition, currentPosition),
+          end: Math.max(this.playStartPosition, currentPosition)
+        },
+        progress: this.totalProgress
+      });
+    }
+  }
+
+  /**
+   * Close the credited segment, if one is open, and add it to watched intervals
+   * 
+   * @param currentPosition - The current playback position in seconds
+   */
+  private closeSegment(currentPosition: number): void {
+    if (this.isCreditingSuspended) {
+      this.resumeTrackingOnCredit = false;
+      return;
+    }
     if (this.isTracking && this.trackingStartTime !== currentPosition) {
+      const watched: WatchedInterval = {
+        start: Math.min(this.trackingStartTime, currentPosition),
+        end: Math.max(this.trackingStartTime, currentPosition)
+      };
+      let newInterval: WatchedInterval | null = null;
       // Only add interval if at least 1 second was watched
       if (Math.abs(this.trackingStartTime - currentPosition) >= 1) {
-        const newInterval: WatchedInterval = {
-          start: Math.min(this.trackingStartTime, currentPosition),
-          end: Math.max(this.trackingStartTime, currentPosition)
-        };
+        newInterval = this.verifyWallClock(watched)
+          ? this.applyPlaybackRatePolicy(watched)
+          : null;
         
-        this.watchedIntervals.push(newInterval);
-        this.watchedIntervals = this.mergeIntervals(this.watchedIntervals);
+        if (newInterval) {
+          this.heatmap.addInterval(newInterval);
+          // Merging extends intervals in place, so keep the credited one intact
+          this.watchedIntervals.push({ ...newInterval });
+          this.watchedIntervals = this.mergeIntervals(this.watchedIntervals);
+        }
         this.lastPosition = currentPosition;
         this.calculateProgress();
+        this.checkCompletion();
         this.saveProgress();
+        if (newInterval) {
+          this.logSession(newInterval);
+          this.queueServerDelta(newInterval);
+        }
       }
       this.isTracking = false;
+      this.emit('segmentEnd', { segment: watched, credited: newInterval, progress: this.totalProgress });
+    }
+  }
+
+  /**
+   * Stop crediting watch time, e.g. while the learner is away. The current
+   * segment is closed at the given position and playback from here on is
+   * not credited until resumeCrediting is called.
+   * 
+   * @param currentPosition - The current playback position in seconds
+   */
+  public suspendCrediting(currentPosition: number): void {
+    if (this.isCreditingSuspended) return;
+    const wasTracking = this.isTracking;
+    this.closeSegment(currentPosition);
+    this.isCreditingSuspended = true;
+    this.resumeTrackingOnCredit = wasTracking;
+  }
+
+  /**
+   * Resume crediting watch time. If playback continued while crediting was
+   * suspended, a new segment starts at the given position.
+   * 
+   * @param currentPosition - The current playback position in seconds
+   */
+  public resumeCrediting(currentPosition: number): void {
+    if (!this.isCreditingSuspended) return;
+    this.isCreditingSuspended = false;
+    if (this.resumeTrackingOnCredit) {
+      this.resumeTrackingOnCredit = false;
+      this.openSegment(currentPosition);
+    }
+  }
+
+  /**
+   * Whether crediting is currently suspended
+   * 
+   * @returns True between suspendCrediting and resumeCrediting
+   */
+  public isCreditSuspended(): boolean {
+    return this.isCreditingSuspended;
+  }
+
+  /**
+   * Check that a segment's media time is plausibly backed by real elapsed
+   * time. Segments that fail are recorded as suspicious and not credited.
+   * 
+   * @param interval - The segment as reported by the player
+   * @returns True if the segment may be credited
+   */
+  private verifyWallClock(interval: WatchedInterval): boolean {
+    const { enabled, tolerance, graceSeconds } = this.wallClockVerification;
+    if (!enabled) return true;
+
+    const wallClockSeconds = Math.max(0, (this.now() - this.trackingStartWallClock) / 1000);
+    const maxMediaSeconds = wallClockSeconds * this.playbackRate * (1 + tolerance) + graceSeconds;
+    if (interval.end - interval.start <= maxMediaSeconds) {
+      return true;
+    }
+
+    const segment: SuspiciousSegment = {
+      ...interval,
+      wallClockSeconds,
+      playbackRate: this.playbackRate,
+      detectedAt: new Date(this.now()).toISOString()
+    };
+    this.suspiciousSegments.push(segment);
+    this.emit('suspiciousSegment', segment);
+    return false;
+  }
+
+  /**
+   * Get segments that were rejected by wall-clock verification
+   * 
+   * @returns Suspicious segments, oldest first
+   */
+  public getSuspiciousSegments(): SuspiciousSegment[] {
+    return [...this.suspiciousSegments];
+  }
+
+  /**
+   * Reduce a watched segment according to the playback rate policy
+   * 
+   * @param interval - The segment as watched at the current playback rate
+   * @returns The interval to credit, or null if nothing is credited
+   */
+  private applyPlaybackRatePolicy(interval: WatchedInterval): WatchedInterval | null {
+    const { maxFullCreditRate, overRateCredit } = this.playbackRatePolicy;
+    if (this.playbackRate <= maxFullCreditRate) {
+      return interval;
     }
+    if (overRateCredit === 'none') {
+      return null;
+    }
+    const creditedLength = (interval.end - interval.start) * (maxFullCreditRate / this.playbackRate);
+    return { start: interval.start, end: interval.start + creditedLength };
+  }
+
+  /**
+   * Sets the current playback rate. If a segment is being tracked it is
+   * closed at the old rate and a new one started, so each segment is
+   * credited at the rate it was actually watched.
+   * 
+   * @param rate - The media element's playbackRate
+   * @param currentPosition - The current playback position in seconds
+   */
+  public setPlaybackRate(rate: number, currentPosition?: number): void {
+    if (!(rate > 0) || rate === this.playbackRate) return;
+
+    if (this.isTracking && currentPosition !== undefined) {
+      this.closeSegment(currentPosition);
+      this.playbackRate = rate;
+      this.openSegment(currentPosition);
+    } else {
+      this.playbackRate = rate;
+    }
+  }
+
+  /**
+   * Get the current playback rate
+   * 
+   * @returns Playback rate (1 is normal speed)
+   */
+  public getPlaybackRate(): number {
+    return this.playbackRate;
   }
 
   /**
@@ -145,15 +869,29 @@ export class VideoProgressTracker {
    * Handle seeking/jumping in the video
    * 
    * @param currentPosition - The new position after seeking
+   * @param previousPosition - Where playback was before the seek; defaults to the last saved position
    */
-  public handleSeek(currentPosition: number): void {
-    if (this.isTracking) {
-      this.stopTracking(this.lastPosition);
+  public handleSeek(currentPosition: number, previousPosition?: number): void {
+    const from = previousPosition ?? this.lastPosition;
+    const wasTracking = this.isTracking;
+    if (wasTracking) {
+      this.closeSegment(from);
     }
     this.lastPosition = currentPosition;
+    // Playback carries on from the new position as a fresh segment
     if (this.isTracking) {
       this.trackingStartTime = currentPosition;
+    } else if (wasTracking) {
+      this.openSegment(currentPosition);
+    }
+
+    const segment = this.isPlaying
+      ? { start: Math.min(this.playStartPosition, from), end: Math.max(this.playStartPosition, from) }
+      : null;
+    if (this.isPlaying) {
+      this.playStartPosition = currentPosition;
     }
+    this.emit('seek', { type: 'seek', from, to: currentPosition, segment, progress: this.totalProgress });
   }
 
   /**
@@ -166,6 +904,66 @@ export class VideoProgressTracker {
     }
   }
 
+  /**
+   * Mark the video completed the first time the completion rules are met,
+   * and tell complete listeners. Callers persist the change.
+   * 
+   * @returns True if the video just became complete
+   */
+  private checkCompletion(): boolean {
+    if (this.completedAt || !this.getCompletionStatus().isComplete) {
+      return false;
+    }
+    this.completedAt = new Date(this.now()).toISOString();
+    this.emit('complete', this.getProgressData());
+    return true;
+  }
+
+  /**
+   * Evaluate the completion rules against the current intervals
+   * 
+   * @returns Which rules are met and whether the video is complete
+   */
+  public getCompletionStatus(): CompletionStatus {
+    return evaluateCompletion(this.getMergedIntervals(), this.duration, {
+      ...this.completionRules,
+      requiredSegments: [
+        ...this.completionRules.requiredSegments,
+        ...getRequiredChapterSegments(this.chapters)
+      ]
+    });
+  }
+
+  /**
+   * Whether the video has been completed
+   * 
+   * @returns True once the completion rules have been met
+   */
+  public isComplete(): boolean {
+    return this.completedAt !== null;
+  }
+
+  /**
+   * Replace the chapter list, e.g. once chapter cues have loaded
+   * 
+   * @param chapters - Chapters of the video
+   */
+  public setChapters(chapters: Chapter[]): void {
+    this.chapters = [...chapters];
+    if (this.checkCompletion()) {
+      this.saveProgress();
+    }
+  }
+
+  /**
+   * Get coverage for each chapter
+   * 
+   * @returns Chapter progress, ordered by start time
+   */
+  public getChapterProgress(): ChapterProgress[] {
+    return computeChapterProgress(this.chapters, this.getMergedIntervals());
+  }
+
   /**
    * Merge overlapping intervals to avoid counting the same segment twice
    * 
@@ -213,7 +1011,13 @@ export class VideoProgressTracker {
       lastPosition: this.lastPosition,
       totalProgress: this.totalProgress,
       videoId: this.videoId,
-      updatedAt: new Date().toISOString()
+      updatedAt: this.updatedAt,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      playbackRatePolicy: { ...this.playbackRatePolicy },
+      suspiciousSegments: [...this.suspiciousSegments],
+      heatmap: this.heatmap.toData(),
+      completedAt: this.completedAt,
+      trackedDuration: this.trackedDuration
     };
   }
 
@@ -226,6 +1030,25 @@ export class VideoProgressTracker {
     return this.mergeIntervals(this.watchedIntervals);
   }
 
+  /**
+   * Get the view-count heatmap, including rewatches
+   * 
+   * @returns Per-bucket view counts
+   */
+  public getHeatmap(): HeatmapData {
+    return this.heatmap.toData();
+  }
+
+  /**
+   * Get how many times the moment at a given position has been watched
+   * 
+   * @param position - Position in seconds
+   * @returns View count, 0 if never watched
+   */
+  public getViewCount(position: number): number {
+    return this.heatmap.getViewCount(position);
+  }
+
   /**
    * Get the current progress percentage
    * 
@@ -249,12 +1072,24 @@ export class VideoProgressTracker {
    */
   public reset(): void {
     this.watchedIntervals = [];
+    this.suspiciousSegments = [];
+    this.heatmap.clear();
+    this.completedAt = null;
     this.lastPosition = 0;
     this.totalProgress = 0;
-    localStorage.removeItem(this.storageKey);
-    if (this.onProgressUpdate) {
-      this.onProgressUpdate(this.getProgressData());
+    this.trackedDuration = this.hasKnownDuration() ? this.duration : 0;
+    this.updatedAt = new Date(this.now()).toISOString();
+    try {
+      const result = this.store.remove(this.videoId);
+      if (isPromiseLike(result)) {
+        result.then(undefined, error => this.reportStorageError('remove', error));
+      }
+    } catch (error) {
+      this.reportStorageError('remove', error);
     }
+    const data = this.getProgressData();
+    this.emit('progress', data);
+    this.emit('reset', data);
   }
 
   /**
@@ -263,11 +1098,8 @@ export class VideoProgressTracker {
    * @returns JSON string of progress data
    */
   public exportProgressData(): string {
-    const data = {
-      videoId: this.videoId,
-      intervals: this.watchedIntervals,
-      lastPosition: this.lastPosition,
-      totalProgress: this.totalProgress,
+    const data: ExportedProgressData = {
+      ...this.getProgressData(),
       exportedAt: new Date().toISOString()
     };
     return JSON.stringify(data, null, 2);
@@ -276,17 +1108,32 @@ export class VideoProgressTracker {
   /**
    * Import progress data from a JSON string
    * 
+   * Older export formats are migrated to the current schema, and payloads
+   * with malformed intervals are rejected.
+   * 
    * @param jsonData - JSON string of progress data
    * @returns Success status
    */
   public importProgressData(jsonData: string): boolean {
     try {
-      const data = JSON.parse(jsonData);
+      const data = parseProgressPayload(JSON.parse(jsonData), {
+        videoId: this.videoId,
+        duration: this.duration
+      });
       if (data.videoId === this.videoId) {
-        this.watchedIntervals = data.intervals || [];
-        this.lastPosition = data.lastPosition || 0;
+        const mismatch = this.reconcileSavedProgress(data);
+        this.watchedIntervals = this.mergeIntervals(data.intervals);
+        this.suspiciousSegments = data.suspiciousSegments || [];
+        this.heatmap.load(data.heatmap, this.watchedIntervals);
+        this.completedAt = data.completedAt || null;
+        this.lastPosition = data.lastPosition;
         this.calculateProgress();
+        this.checkCompletion();
         this.saveProgress();
+        if (mismatch) {
+          this.emit('durationMismatch', { ...mismatch, newProgress: this.totalProgress });
+        }
+        this.emit('import', this.getProgressData());
         return true;
       }
       return false;
@@ -0,0 +1,155 @@
+/**
+ * View Heatmap
+ *
+ * A per-bucket histogram of how many times each part of a video has been
+ * watched. Unlike merged intervals, which only record whether a moment was
+ * covered, the heatmap keeps rewatches, so instructors can see which parts
+ * learners return to.
+ */
+
+import type { WatchedInterval } from '@/lib/videoProgressTracker';
+
+export const DEFAULT_HEATMAP_BUCKET_SIZE = 1;
+
+/**
+ * Serializable heatmap. `counts[i]` is the number of times the bucket
+ * `[i * bucketSize, (i + 1) * bucketSize)` was watched; partial coverage
+ * contributes a fractional view.
+ */
+export interface HeatmapData {
+  bucketSize: number;
+  counts: number[];
+}
+
+export class ViewHeatmap {
+  private bucketSize: number;
+  private counts: number[] = [];
+
+  /**
+   * @param bucketSize - Width of each bucket in seconds
+   */
+  constructor(bucketSize: number = DEFAULT_HEATMAP_BUCKET_SIZE) {
+    this.bucketSize = bucketSize > 0 ? bucketSize : DEFAULT_HEATMAP_BUCKET_SIZE;
+  }
+
+  /**
+   * Record one view of an interval
+   *
+   * @param interval - The interval that was watched
+   */
+  public addInterval(interval: WatchedInterval): void {
+    const firstBucket = Math.floor(interval.start / this.bucketSize);
+    const lastBucket = Math.ceil(interval.end / this.bucketSize) - 1;
+
+    for (let bucket = firstBucket; bucket <= lastBucket; bucket++) {
+      const bucketStart = bucket * this.bucketSize;
+      const overlap = Math.min(interval.end, bucketStart + this.bucketSize) - Math.max(interval.start, bucketStart);
+      if (overlap > 0) {
+        this.counts[bucket] = (this.counts[bucket] || 0) + overlap / this.bucketSize;
+      }
+    }
+  }
+
+  /**
+   * Replace (or add to) the histogram with saved data. If the saved bucket
+   * size doesn't match, the histogram is seeded from the intervals instead,
+   * counting each covered moment as one view.
+   *
+   * @param data - Saved heatmap, if any
+   * @param intervals - Merged intervals to fall back on
+   * @param merge - Add to the current counts instead of replacing them
+   */
+  public load(data: HeatmapData | undefined, intervals: WatchedInterval[], merge: boolean = false): void {
+    if (!merge) {
+      this.counts = [];
+    }
+    if (data && data.bucketSize === this.bucketSize) {
+      data.counts.forEach((count, bucket) => {
+        if (count > 0) {
+          this.counts[bucket] = (this.counts[bucket] || 0) + count;
+        }
+      });
+    } else {
+      intervals.forEach(interval => this.addInterval(interval));
+    }
+  }
+
+  /**
+   * Combine with another copy of the same video's heatmap, e.g. one saved
+   * by another tab, keeping the larger count for each bucket so views both
+   * copies already share are not counted twice. Counts kept with a
+   * different bucket size are ignored.
+   *
+   * @param data - The other heatmap
+   */
+  public mergeMax(data: HeatmapData): void {
+    if (data.bucketSize !== this.bucketSize) return;
+    data.counts.forEach((count, bucket) => {
+      if (count > (this.counts[bucket] || 0)) {
+        this.counts[bucket] = count;
+      }
+    });
+  }
+
+  /**
+   * Get how many times the moment at a given time was watched
+   *
+   * @param time - Position in seconds
+   * @returns View count (may be fractional at bucket edges)
+   */
+  public getViewCount(time: number): number {
+    return this.counts[Math.floor(time / this.bucketSize)] || 0;
+  }
+
+  /**
+   * Clear all counts
+   */
+  public clear(): void {
+    this.counts = [];
+  }
+
+  /**
+   * Get the histogram as plain data
+   *
+   * @returns Heatmap with counts rounded to two decimals
+   */
+  public toData(): HeatmapData {
+    const counts: number[] = [];
+    for (let bucket = 0; bucket < this.counts.length; bucket++) {
+      counts.push(Math.round((this.counts[bucket] || 0) * 100) / 100);
+    }
+    return { bucketSize: this.bucketSize, counts };
+  }
+}
+
+/**
+ * Down-sample a heatmap to a fixed number of segments across the video,
+ * e.g. for drawing a strip over the progress bar
+ *
+ * @param heatmap - The heatmap to summarize
+ * @param duration - Video duration in seconds
+ * @param segments - Number of output segments
+ * @returns Average view count per segment
+ */
+export function summarizeHeatmap(heatmap: HeatmapData, duration: number, segments: number): number[] {
+  if (duration <= 0 || segments <= 0) return [];
+
+  const segmentLength = duration / segments;
+  const summary: number[] = [];
+  for (let i = 0; i < segments; i++) {
+    const start = i * segmentLength;
+    const end = start + segmentLength;
+    let total = 0;
+    for (
+      let bucket = Math.floor(start / heatmap.bucketSize);
+      bucket * heatmap.bucketSize < end && bucket < heatmap.counts.length;
+      bucket++
+    ) {
+      const bucketStart = bucket * heatmap.bucketSize;
+      const overlap = Math.min(end, bucketStart + heatmap.bucketSize) - Math.max(start, bucketStart);
+      total += (heatmap.counts[bucket] || 0) * Math.max(0, overlap);
+    }
+    summary.push(total / segmentLength);
+  }
+  return summary;
+}
@@ -0,0 +1,131 @@
+/**
+ * Vimeo Player Adapter
+ *
+ * Wraps @vimeo/player in a PlayerAdapter. The Vimeo API is asynchronous,
+ * so the adapter caches the playhead, duration and rate from the events it
+ * receives and answers the synchronous getters from that cache.
+ */
+
+import Player, { VimeoUrl } from '@vimeo/player';
+import { BasePlayerAdapter } from '@/lib/playerAdapter';
+
+export class VimeoAdapter extends BasePlayerAdapter {
+  private player: Player;
+  private currentTime: number = 0;
+  private duration: number = 0;
+  private playbackRate: number = 1;
+  private paused: boolean = true;
+
+  private constructor(player: Player) {
+    super();
+    this.player = player;
+  }
+
+  /**
+   * Create a Vimeo player inside an element and wait until it is ready
+   *
+   * @param element - Element (or element id) to embed the player in, or an existing Vimeo iframe
+   * @param vimeoVideo - The Vimeo video ID or URL
+   * @returns A ready adapter
+   */
+  public static async create(element: HTMLElement | string, vimeoVideo: number | string): Promise<VimeoAdapter> {
+    const player = new Player(element, {
+      ...(typeof vimeoVideo === 'number' || /^\d+$/.test(vimeoVideo)
+        ? { id: Number(vimeoVideo) }
+        : { url: vimeoVideo as VimeoUrl }),
+      responsive: true
+    });
+    const adapter = new VimeoAdapter(player);
+    adapter.bindEvents();
+
+    await player.ready();
+    const [duration, playbackRate] = await Promise.all([
+      player.getDuration(),
+      player.getPlaybackRate().catch(() => 1)
+    ]);
+    adapter.duration = duration;
+    adapter.playbackRate = playbackRate;
+    adapter.emit('durationchange');
+    return adapter;
+  }
+
+  private bindEvents(): void {
+    this.player.on('play', (data) => {
+      this.currentTime = data.seconds;
+      this.paused = false;
+      this.emit('play');
+    });
+    this.player.on('playing', (data) => {
+      this.currentTime = data.seconds;
+      this.paused = false;
+      this.emit('playing');
+    });
+    this.player.on('pause', (data) => {
+      this.currentTime = data.seconds;
+      this.paused = true;
+      this.emit('pause');
+    });
+    this.player.on('ended', (data) => {
+      this.currentTime = data.seconds;
+      this.paused = true;
+      this.emit('ended');
+    });
+    this.player.on('timeupdate', (data) => {
+      this.currentTime = data.seconds;
+      if (data.duration && data.duration !== this.duration) {
+        this.duration = data.duration;
+        this.emit('durationchange');
+      }
+      this.emit('timeupdate');
+    });
+    this.player.on('seeked', (data) => {
+      this.currentTime = data.seconds;
+      this.emit('seeked');
+    });
+    this.player.on('bufferstart', () => this.emit('waiting'));
+    this.player.on('bufferend', () => {
+      if (!this.paused) this.emit('playing');
+    });
+    this.player.on('playbackratechange', (data) => {
+      this.playbackRate = data.playbackRate;
+      this.emit('ratechange');
+    });
+  }
+
+  public play(): Promise<void> {
+    return this.player.play();
+  }
+
+  public pause(): void {
+    this.player.pause().catch(error => console.error('Error pausing Vimeo player:', error));
+  }
+
+  public seek(time: number): void {
+    this.player.setCurrentTime(time).catch(error => console.error('Error seeking Vimeo player:', error));
+  }
+
+  public getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  public getDuration(): number {
+    return this.duration;
+  }
+
+  public getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  public setPlaybackRate(rate: number): void {
+    this.player.setPlaybackRate(rate).catch(error => console.error('Error setting Vimeo playback rate:', error));
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public destroy(): void {
+    this.player.destroy().catch(() => undefined);
+    super.destroy();
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * WebVTT
+ *
+ * A small WebVTT parser for chapter tracks, so chapter boundaries can come
+ * from the same files as the captions.
+ */
+
+import type { Chapter } from '@/lib/chapters';
+
+export interface VttCue {
+  id: string | null;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export class WebVTTParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebVTTParseError';
+  }
+}
+
+/**
+ * Parse a WebVTT timestamp (`hh:mm:ss.ttt` or `mm:ss.ttt`)
+ *
+ * @param timestamp - The timestamp text
+ * @returns Time in seconds, or null if malformed
+ */
+export function parseVttTimestamp(timestamp: string): number | null {
+  const match = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/.exec(timestamp.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(millis) / 1000
+  );
+}
+
+/**
+ * Parse the cues of a WebVTT file. NOTE, STYLE and REGION blocks are skipped.
+ *
+ * @param source - Contents of the .vtt file
+ * @returns Cues in file order
+ * @throws WebVTTParseError if the file has no WEBVTT header
+ */
+export function parseWebVTT(source: string): VttCue[] {
+  const text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  if (!/^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text)) {
+    throw new WebVTTParseError('Missing WEBVTT header');
+  }
+
+  const blocks = text.split(/\n{2,}/).slice(1);
+  const cues: VttCue[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0 || timingIndex > 1) return;
+
+    const [startText, rest] = lines[timingIndex].split('-->');
+    const start = parseVttTimestamp(startText);
+    const end = parseVttTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null || end < start) return;
+
+    cues.push({
+      id: timingIndex === 1 ? lines[0].trim() : null,
+      start,
+      end,
+      text: lines.slice(timingIndex + 1).join('\n').trim()
+    });
+  });
+
+  return cues;
+}
+
+/**
+ * Turn chapter-track cues into chapters
+ *
+ * @param cues - Cues from a `kind="chapters"` track
+ * @param requiredIds - Cue identifiers (or titles, for cues without one) of required chapters
+ * @returns Chapters in cue order
+ */
+export function cuesToChapters(cues: VttCue[], requiredIds: string[] = []): Chapter[] {
+  return cues.map((cue, index) => {
+    const id = cue.id || `chapter-${index + 1}`;
+    return {
+      id,
+      title: cue.text || `Chapter ${index + 1}`,
+      start: cue.start,
+      end: cue.end,
+      required: requiredIds.includes(id) || requiredIds.includes(cue.text)
+    };
+  });
+}
@@ -0,0 +1,562 @@
+/**
+ * xAPI Video Statements
+ *
+ * Turns tracker events into statements following the xAPI Video Profile
+ * (https://w3id.org/xapi/video) and sends them to a Learning Record Store
+ * in batches. Statements that fail to send stay queued and are retried
+ * with exponential backoff, also after the session has terminated.
+ */
+
+import type { TrackingEvent, WatchedInterval } from '@/lib/videoProgressTracker';
+import { DEFAULT_SYNC_RETRY_POLICY, SyncRetryPolicy } from '@/lib/offlineSync';
+
+export const XAPI_VERSION = '1.0.3';
+
+export const XAPI_VERBS = {
+  initialized: { id: 'http://adlnet.gov/expapi/verbs/initialized', display: { 'en-US': 'initialized' } },
+  played: { id: 'https://w3id.org/xapi/video/verbs/played', display: { 'en-US': 'played' } },
+  paused: { id: 'https://w3id.org/xapi/video/verbs/paused', display: { 'en-US': 'paused' } },
+  seeked: { id: 'https://w3id.org/xapi/video/verbs/seeked', display: { 'en-US': 'seeked' } },
+  completed: { id: 'http://adlnet.gov/expapi/verbs/completed', display: { 'en-US': 'completed' } },
+  terminated: { id: 'http://adlnet.gov/expapi/verbs/terminated', display: { 'en-US': 'terminated' } }
+} as const;
+
+export type XapiVerbName = keyof typeof XAPI_VERBS;
+
+const VIDEO_PROFILE_ID = 'https://w3id.org/xapi/video';
+const VIDEO_ACTIVITY_TYPE = 'https://w3id.org/xapi/video/activity-type/video';
+
+export const XAPI_VIDEO_EXTENSIONS = {
+  time: 'https://w3id.org/xapi/video/extensions/time',
+  timeFrom: 'https://w3id.org/xapi/video/extensions/time-from',
+  timeTo: 'https://w3id.org/xapi/video/extensions/time-to',
+  progress: 'https://w3id.org/xapi/video/extensions/progress',
+  playedSegments: 'https://w3id.org/xapi/video/extensions/played-segments',
+  length: 'https://w3id.org/xapi/video/extensions/length',
+  sessionId: 'https://w3id.org/xapi/video/extensions/session-id',
+  completionThreshold: 'https://w3id.org/xapi/video/extensions/completion-threshold'
+} as const;
+
+/**
+ * The learner. xAPI requires exactly one inverse functional identifier
+ * (mbox, mbox_sha1sum, openid or account).
+ */
+export interface XapiActor {
+  objectType?: 'Agent';
+  name?: string;
+  mbox?: string;
+  mbox_sha1sum?: string;
+  openid?: string;
+  account?: { homePage: string; name: string };
+}
+
+export interface XapiStatement {
+  id: string;
+  actor: XapiActor;
+  verb: { id: string; display: Record<string, string> };
+  object: {
+    objectType: 'Activity';
+    id: string;
+    definition?: { type: string; name: Record<string, string> };
+  };
+  result?: {
+    completion?: boolean;
+    duration?: string;
+    extensions?: Record<string, unknown>;
+  };
+  context: {
+    registration?: string;
+    contextActivities: XapiContextActivities;
+    extensions: Record<string, unknown>;
+  };
+  timestamp: string;
+}
+
+export interface XapiContextActivity {
+  id: string;
+  objectType?: 'Activity';
+  definition?: { type: string };
+}
+
+export interface XapiContextActivities {
+  parent?: XapiContextActivity[];
+  grouping?: XapiContextActivity[];
+  category?: XapiContextActivity[];
+  other?: XapiContextActivity[];
+}
+
+/**
+ * Context every statement in a session must carry, e.g. cmi5's contextTemplate
+ */
+export interface XapiContextTemplate {
+  contextActivities?: XapiContextActivities;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Merge a context template into a statement's context. Activities are
+ * appended per list and the template's extensions win over the statement's.
+ *
+ * @param context - The statement's own context
+ * @param template - The template to apply
+ * @returns The merged context
+ */
+export function applyContextTemplate(
+  context: XapiStatement['context'],
+  template?: XapiContextTemplate
+): XapiStatement['context'] {
+  if (!template) return context;
+  const activities: XapiContextActivities = { ...context.contextActivities };
+  (Object.keys(template.contextActivities || {}) as (keyof XapiContextActivities)[]).forEach(key => {
+    activities[key] = [...(activities[key] || []), ...(template.contextActivities?.[key] || [])];
+  });
+  return {
+    ...context,
+    contextActivities: activities,
+    extensions: { ...context.extensions, ...template.extensions }
+  };
+}
+
+/**
+ * Generate a version 4 UUID, as required for statement IDs and registrations
+ *
+ * @returns A UUID string
+ */
+export function createUuid(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Round a time to the three decimals the Video Profile allows
+ */
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Format segments as the profile's played-segments string, e.g. "0[.]5.2[,]10[.]20"
+ *
+ * @param segments - Played segments, in the order they were played
+ * @returns The played-segments extension value
+ */
+export function formatPlayedSegments(segments: WatchedInterval[]): string {
+  return segments
+    .map(segment => `${roundTime(segment.start)}[.]${roundTime(segment.end)}`)
+    .join('[,]');
+}
+
+/**
+ * Format seconds as an ISO 8601 duration, e.g. "PT1M5.5S"
+ *
+ * @param seconds - Duration in seconds
+ * @returns The duration string
+ */
+export function formatIsoDuration(seconds: number): string {
+  const total = Math.max(0, seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const remainder = Math.round((total % 60) * 100) / 100;
+  return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${remainder}S`;
+}
+
+export class LrsRequestError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LrsRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether a failed statement request is worth retrying. Client errors
+ * other than timeouts and rate limiting mean the LRS rejected the batch.
+ *
+ * @param error - The error thrown by the client
+ * @returns True if the request may succeed later
+ */
+export function isRetryableLrsError(error: unknown): boolean {
+  if (!(error instanceof LrsRequestError)) return true;
+  return error.status >= 500 || error.status === 408 || error.status === 429;
+}
+
+export interface LrsClientOptions {
+  /** LRS base URL; statements are posted to `{endpoint}/statements` */
+  endpoint: string;
+  /** Value of the Authorization header, e.g. "Basic ..." */
+  auth?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Sends statements to a Learning Record Store
+ */
+export class LrsClient {
+  private endpoint: string;
+  private auth?: string;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param options - LRS endpoint, credentials and an optional fetch implementation
+   */
+  constructor(options: LrsClientOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+    this.auth = options.auth;
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Post a batch of statements
+   *
+   * @param statements - Statements to store
+   * @param options - Set keepalive for a send that must outlive the page, e.g. on pagehide
+   */
+  public async sendStatements(statements: XapiStatement[], options: { keepalive?: boolean } = {}): Promise<void> {
+    const response = await this.fetchImpl(`${this.endpoint}/statements`, {
+      method: 'POST',
+      keepalive: options.keepalive,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': XAPI_VERSION,
+        ...(this.auth ? { Authorization: this.auth } : {})
+      },
+      body: JSON.stringify(statements)
+    });
+    if (!response.ok) {
+      throw new LrsRequestError(`LRS rejected statements: ${response.status} ${response.statusText}`, response.status);
+    }
+  }
+
+  /**
+   * Read a document from the State API
+   *
+   * @param params - The activity, agent, state ID and optional registration the document is stored under
+   * @returns The parsed document, or null if none is stored
+   */
+  public async getState<T>(params: {
+    activityId: string;
+    agent: XapiActor;
+    stateId: string;
+    registration?: string;
+  }): Promise<T | null> {
+    const query = new URLSearchParams({
+      activityId: params.activityId,
+      agent: JSON.stringify(params.agent),
+      stateId: params.stateId
+    });
+    if (params.registration) {
+      query.set('registration', params.registration);
+    }
+    const response = await this.fetchImpl(`${this.endpoint}/activities/state?${query}`, {
+      method: 'GET',
+      headers: {
+        'X-Experience-API-Version': XAPI_VERSION,
+        ...(this.auth ? { Authorization: this.auth } : {})
+      }
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`LRS rejected state request: ${response.status} ${response.statusText}`);
+    }
+    return await response.json() as T;
+  }
+
+  /**
+   * Store a document in the State API, replacing any stored under the same ID
+   *
+   * @param params - The activity, agent, state ID and optional registration to store the document under
+   * @param document - The document to store
+   */
+  public async putState<T>(params: {
+    activityId: string;
+    agent: XapiActor;
+    stateId: string;
+    registration?: string;
+  }, document: T): Promise<void> {
+    const query = new URLSearchParams({
+      activityId: params.activityId,
+      agent: JSON.stringify(params.agent),
+      stateId: params.stateId
+    });
+    if (params.registration) {
+      query.set('registration', params.registration);
+    }
+    const response = await this.fetchImpl(`${this.endpoint}/activities/state?${query}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': XAPI_VERSION,
+        ...(this.auth ? { Authorization: this.auth } : {})
+      },
+      body: JSON.stringify(document)
+    });
+    if (!response.ok) {
+      throw new Error(`LRS rejected state document: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+export interface XapiVideoEmitterOptions {
+  client: LrsClient;
+  actor: XapiActor;
+  /** The video activity, e.g. its canonical URL */
+  activityId: string;
+  activityName: string;
+  /** Groups this attempt's statements, e.g. a course enrollment */
+  registration?: string;
+  /** Context added to every statement, e.g. from a cmi5 launch */
+  contextTemplate?: XapiContextTemplate;
+  /** Progress (0-1) at which the video counts as completed, reported on initialized */
+  completionThreshold?: number;
+  /** Statements sent per request */
+  batchSize?: number;
+  /** How long statements may wait before being sent */
+  flushIntervalMs?: number;
+  /** Backoff between attempts to resend a failed batch. Defaults to DEFAULT_SYNC_RETRY_POLICY. */
+  retry?: Partial<SyncRetryPolicy>;
+}
+
+/**
+ * Builds Video Profile statements from tracker events and sends them in batches
+ */
+export class XapiVideoEmitter {
+  private client: LrsClient;
+  private options: XapiVideoEmitterOptions;
+  private sessionId: string = createUuid();
+  private queue: XapiStatement[] = [];
+  private playedSegments: WatchedInterval[] = [];
+  private length: number = 0;
+  private lastProgress: number = 0;
+  private isInitialized: boolean = false;
+  private isTerminated: boolean = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private retryPolicy: SyncRetryPolicy;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt: number = 0;
+
+  /**
+   * @param options - LRS client, actor, activity, batching and retry settings
+   */
+  constructor(options: XapiVideoEmitterOptions) {
+    this.client = options.client;
+    this.options = { batchSize: 10, flushIntervalMs: 5000, ...options };
+    this.retryPolicy = { ...DEFAULT_SYNC_RETRY_POLICY, ...options.retry };
+  }
+
+  private buildStatement(
+    verb: XapiVerbName,
+    resultExtensions?: Record<string, unknown>,
+    result: { completion?: boolean; duration?: string } = {}
+  ): XapiStatement {
+    const contextExtensions: Record<string, unknown> = {
+      [XAPI_VIDEO_EXTENSIONS.sessionId]: this.sessionId,
+      [XAPI_VIDEO_EXTENSIONS.length]: roundTime(this.length)
+    };
+    if (verb === 'initialized' && this.options.completionThreshold !== undefined) {
+      contextExtensions[XAPI_VIDEO_EXTENSIONS.completionThreshold] = this.options.completionThreshold;
+    }
+
+    return {
+      id: createUuid(),
+      actor: { objectType: 'Agent', ...this.options.actor },
+      verb: XAPI_VERBS[verb],
+      object: {
+        objectType: 'Activity',
+        id: this.options.activityId,
+        definition: {
+          type: VIDEO_ACTIVITY_TYPE,
+          name: { 'en-US': this.options.activityName }
+        }
+      },
+      ...(resultExtensions ? { result: { ...result, extensions: resultExtensions } } : {}),
+      context: applyContextTemplate({
+        ...(this.options.registration ? { registration: this.options.registration } : {}),
+        contextActivities: {
+          category: [{ id: VIDEO_PROFILE_ID, definition: { type: 'http://adlnet.gov/expapi/activities/profile' } }]
+        },
+        extensions: contextExtensions
+      }, this.options.contextTemplate),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Result extensions shared by paused, completed and terminated
+   */
+  private progressExtensions(time: number): Record<string, unknown> {
+    return {
+      [XAPI_VIDEO_EXTENSIONS.time]: roundTime(time),
+      [XAPI_VIDEO_EXTENSIONS.progress]: Math.round(this.lastProgress * 10) / 1000,
+      [XAPI_VIDEO_EXTENSIONS.playedSegments]: formatPlayedSegments(this.playedSegments)
+    };
+  }
+
+  private enqueue(statement: XapiStatement): void {
+    this.queue.push(statement);
+    // While a retry is pending, new statements wait for it
+    if (this.retryTimer) return;
+    if (this.queue.length >= this.options.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, this.options.flushIntervalMs);
+    }
+  }
+
+  /**
+   * Send the initialized statement once the video's length is known
+   *
+   * @param length - Video duration in seconds
+   */
+  public initialize(length: number): void {
+    if (this.isInitialized || length <= 0) return;
+    this.isInitialized = true;
+    this.length = length;
+    this.enqueue(this.buildStatement('initialized'));
+  }
+
+  /**
+   * Build the statement for a tracker event
+   *
+   * @param event - A play, pause or seek event from the tracker, or a completion
+   */
+  public handleTrackingEvent(event: TrackingEvent): void {
+    if (!this.isInitialized || this.isTerminated) return;
+
+    switch (event.type) {
+      case 'play':
+        this.enqueue(this.buildStatement('played', {
+          [XAPI_VIDEO_EXTENSIONS.time]: roundTime(event.position)
+        }));
+        break;
+      case 'pause':
+        this.playedSegments.push(event.segment);
+        this.lastProgress = event.progress;
+        this.enqueue(this.buildStatement('paused', this.progressExtensions(event.position)));
+        break;
+      case 'seek':
+        if (event.segment) {
+          this.playedSegments.push(event.segment);
+        }
+        this.lastProgress = event.progress;
+        this.enqueue(this.buildStatement('seeked', {
+          [XAPI_VIDEO_EXTENSIONS.timeFrom]: roundTime(event.from),
+          [XAPI_VIDEO_EXTENSIONS.timeTo]: roundTime(event.to)
+        }));
+        break;
+      case 'complete':
+        this.lastProgress = event.progress;
+        this.enqueue(this.buildStatement('completed', this.progressExtensions(event.position), {
+          completion: true,
+          duration: formatIsoDuration(this.getPlayedSeconds())
+        }));
+        break;
+    }
+  }
+
+  /**
+   * Send the terminated statement and flush everything queued. Call when
+   * the learner leaves the video; from then on batches are sent with
+   * keepalive so they survive the page unloading.
+   *
+   * @param time - Playback position when the session ended
+   * @returns Resolves when the queue has been sent (or failed to send)
+   */
+  public async terminate(time: number): Promise<void> {
+    if (this.isInitialized && !this.isTerminated) {
+      this.isTerminated = true;
+      this.queue.push(this.buildStatement('terminated', this.progressExtensions(time), {
+        duration: formatIsoDuration(this.getPlayedSeconds())
+      }));
+    }
+    await this.flush();
+    // A flush already under way may have left its loop before Terminated was queued
+    if (this.queue.length > 0 && !this.retryTimer) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Seconds played this session, counting rewatches
+   */
+  private getPlayedSeconds(): number {
+    return this.playedSegments.reduce((total, segment) => total + (segment.end - segment.start), 0);
+  }
+
+  /**
+   * Send queued statements now, without waiting for a pending retry
+   *
+   * @returns Resolves when this flush has finished
+   */
+  public flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.flushPromise) {
+      this.flushPromise = this.sendQueued().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async sendQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, this.options.batchSize);
+      try {
+        await this.client.sendStatements(batch, { keepalive: this.isTerminated });
+        this.queue = this.queue.slice(batch.length);
+        this.retryAttempt = 0;
+      } catch (error) {
+        if (isRetryableLrsError(error)) {
+          // Keep the batch at the front of the queue and try again later
+          console.error('Error sending xAPI statements:', error);
+          this.scheduleRetry();
+          return;
+        }
+        console.error('Error sending xAPI statements, dropping rejected batch:', error);
+        this.queue = this.queue.slice(batch.length);
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    const delay = Math.min(
+      this.retryPolicy.maxDelayMs,
+      this.retryPolicy.baseDelayMs * 2 ** this.retryAttempt
+    );
+    this.retryAttempt += 1;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * Statements waiting to be sent
+   *
+   * @returns A copy of the queue
+   */
+  public getQueuedStatements(): XapiStatement[] {
+    return [...this.queue];
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * YouTube Player Adapter
+ *
+ * Wraps the YouTube IFrame Player API in a PlayerAdapter. The API has no
+ * timeupdate or seek events, so the adapter polls the playhead while
+ * playing and emits timeupdate itself; connectPlayerToTracker turns large
+ * jumps into seeks.
+ */
+
+import { BasePlayerAdapter } from '@/lib/playerAdapter';
+
+const IFRAME_API_URL = 'https://www.youtube.com/iframe_api';
+const POLL_INTERVAL_MS = 250;
+
+/** YT.PlayerState values */
+const PlayerState = {
+  ENDED: 0,
+  PLAYING: 1,
+  PAUSED: 2,
+  BUFFERING: 3
+} as const;
+
+/**
+ * The subset of the IFrame API player used here
+ */
+interface YouTubePlayer {
+  playVideo(): void;
+  pauseVideo(): void;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlaybackRate(): number;
+  setPlaybackRate(rate: number): void;
+  getPlayerState(): number;
+  destroy(): void;
+}
+
+interface YouTubeNamespace {
+  Player: new (
+    element: HTMLElement | string,
+    options: {
+      videoId: string;
+      width?: string | number;
+      height?: string | number;
+      playerVars?: Record<string, string | number>;
+      events?: {
+        onReady?: () => void;
+        onStateChange?: (event: { data: number }) => void;
+        onPlaybackRateChange?: () => void;
+      };
+    }
+  ) => YouTubePlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+let apiPromise: Promise<YouTubeNamespace> | null = null;
+
+/**
+ * Load the IFrame Player API script once per page
+ *
+ * @returns The global YT namespace
+ */
+function loadYouTubeApi(): Promise<YouTubeNamespace> {
+  if (window.YT && window.YT.Player) {
+    return Promise.resolve(window.YT);
+  }
+  if (!apiPromise) {
+    apiPromise = new Promise((resolve, reject) => {
+      const previousReady = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previousReady?.();
+        resolve(window.YT);
+      };
+      const script = document.createElement('script');
+      script.src = IFRAME_API_URL;
+      script.async = true;
+      script.onerror = () => {
+        apiPromise = null;
+        reject(new Error('Failed to load the YouTube IFrame API'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return apiPromise;
+}
+
+export class YouTubeAdapter extends BasePlayerAdapter {
+  private player: YouTubePlayer;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private lastState: number = -1;
+
+  private constructor() {
+    super();
+  }
+
+  /**
+   * Create a YouTube player inside an element and wait until it is ready
+   *
+   * @param element - Element (or element id) the player iframe replaces
+   * @param youtubeVideoId - The YouTube video ID
+   * @returns A ready adapter
+   */
+  public static async create(element: HTMLElement | string, youtubeVideoId: string): Promise<YouTubeAdapter> {
+    const YT = await loadYouTubeApi();
+    const adapter = new YouTubeAdapter();
+
+    await new Promise<void>(resolve => {
+      adapter.player = new YT.Player(element, {
+        videoId: youtubeVideoId,
+        width: '100%',
+        height: '100%',
+        playerVars: { rel: 0, playsinline: 1 },
+        events: {
+          onReady: () => resolve(),
+          onStateChange: (event) => adapter.handleStateChange(event.data),
+          onPlaybackRateChange: () => adapter.emit('ratechange')
+        }
+      });
+    });
+
+    adapter.emit('durationchange');
+    return adapter;
+  }
+
+  private handleStateChange(state: number): void {
+    const previous = this.lastState;
+    this.lastState = state;
+
+    switch (state) {
+      case PlayerState.PLAYING:
+        if (previous !== PlayerState.BUFFERING) {
+          this.emit('play');
+        }
+        this.emit('playing');
+        this.startPolling();
+        break;
+      case PlayerState.PAUSED:
+        this.stopPolling();
+        this.emit('pause');
+        break;
+      case PlayerState.BUFFERING:
+        this.stopPolling();
+        this.emit('waiting');
+        break;
+      case PlayerState.ENDED:
+        this.stopPolling();
+        this.emit('ended');
+        break;
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.emit('timeupdate'), POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  public async play(): Promise<void> {
+    this.player.playVideo();
+  }
+
+  public pause(): void {
+    this.player.pauseVideo();
+  }
+
+  public seek(time: number): void {
+    this.player.seekTo(time, true);
+    this.emit('seeked');
+  }
+
+  public getCurrentTime(): number {
+    return this.player.getCurrentTime() || 0;
+  }
+
+  public getDuration(): number {
+    return this.player.getDuration() || 0;
+  }
+
+  public getPlaybackRate(): number {
+    return this.player.getPlaybackRate() || 1;
+  }
+
+  public setPlaybackRate(rate: number): void {
+    this.player.setPlaybackRate(rate);
+  }
+
+  public isPaused(): boolean {
+    return this.lastState !== PlayerState.PLAYING && this.lastState !== PlayerState.BUFFERING;
+  }
+
+  public destroy(): void {
+    this.stopPolling();
+    this.player.destroy();
+    super.destroy();
+  }
+}
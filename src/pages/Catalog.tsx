@@ -0,0 +1,111 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle2, PlayCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import Navbar from '@/components/Navbar';
+import { useCourseCatalog } from '@/hooks/use-course-catalog';
+import { useCourseProgress } from '@/hooks/use-course-progress';
+import { Course, getCourseLectures, getLecturePath, toCourseProgressInput } from '@/lib/courseCatalog';
+
+const formatProgress = (percentage: number): string => {
+  return `${Math.round(percentage)}%`;
+};
+
+const CourseCard: React.FC<{ course: Course }> = ({ course }) => {
+  const { videos, modules } = toCourseProgressInput(course);
+  const progress = useCourseProgress({ courseId: course.id, videos, modules });
+  const videoProgress = new Map(progress.videos.map(video => [video.videoId, video]));
+  const nextLecture = getCourseLectures(course).find(lecture => lecture.videoId === progress.nextVideoId);
+
+  return (
+    <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div>
+          <h2 className="text-xl font-semibold dark:text-white">{course.title}</h2>
+          {course.description && <p className="text-muted-foreground">{course.description}</p>}
+        </div>
+        {progress.isComplete ? (
+          <Badge className="bg-green-600 hover:bg-green-600 text-white">Complete</Badge>
+        ) : nextLecture && (
+          <Link
+            to={getLecturePath(course.id, nextLecture.id)}
+            className="text-sm font-medium text-blue-600 hover:underline dark:text-blue-400 whitespace-nowrap"
+          >
+            {progress.totalProgress > 0 ? 'Continue' : 'Start'}: {nextLecture.title}
+          </Link>
+        )}
+      </div>
+      <div className="flex items-center gap-3 mb-6">
+        <Progress value={progress.totalProgress} className="h-2" />
+        <span className="text-sm font-medium w-12 text-right">{formatProgress(progress.totalProgress)}</span>
+      </div>
+
+      <div className="space-y-6">
+        {course.modules.map((module, index) => {
+          const moduleProgress = progress.modules.find(candidate => candidate.moduleId === module.id);
+          return (
+            <div key={module.id}>
+              <h3 className="text-sm font-semibold mb-2 flex justify-between dark:text-white">
+                <span>Module {index + 1}: {module.title}</span>
+                {moduleProgress && (
+                  <span className="text-muted-foreground font-normal">
+                    {formatProgress(moduleProgress.totalProgress)} complete
+                  </span>
+                )}
+              </h3>
+              <div className="space-y-2">
+                {module.lectures.map(lecture => {
+                  const lectureProgress = videoProgress.get(lecture.videoId);
+                  return (
+                    <Link
+                      key={lecture.id}
+                      to={getLecturePath(course.id, lecture.id)}
+                      className="block text-sm bg-muted p-2 rounded-md space-y-1 hover:bg-muted/70"
+                    >
+                      <div className="flex justify-between gap-2">
+                        <span className="flex items-center gap-1">
+                          {lectureProgress?.isComplete
+                            ? <CheckCircle2 className="w-3 h-3 text-green-600" />
+                            : <PlayCircle className="w-3 h-3 text-muted-foreground" />}
+                          {lecture.title}
+                          {lecture.required === false && (
+                            <Badge variant="outline" className="ml-1 px-1 py-0 text-[10px]">Optional</Badge>
+                          )}
+                        </span>
+                        <span>{formatProgress(lectureProgress?.progress ?? 0)}</span>
+                      </div>
+                      <Progress value={lectureProgress?.progress ?? 0} className="h-1" />
+                    </Link>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+const Catalog = () => {
+  const { manifest, error, isLoading } = useCourseCatalog();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900 dark:to-blue-950">
+      <Navbar />
+      <div className="container py-6 space-y-8">
+        {isLoading || error || !manifest ? (
+          <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg max-w-2xl mx-auto">
+            <p className="text-slate-600 dark:text-slate-300">{error ?? 'Loading courses...'}</p>
+          </Card>
+        ) : (
+          manifest.courses.map(course => <CourseCard key={course.id} course={course} />)
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Catalog;
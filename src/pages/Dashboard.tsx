@@ -0,0 +1,172 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { PlayCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import Navbar from '@/components/Navbar';
+import { useCourseCatalog } from '@/hooks/use-course-catalog';
+import { useLearnerDashboard } from '@/hooks/use-learner-dashboard';
+import { findLectureByVideoId, getLecturePath } from '@/lib/courseCatalog';
+import { VideoSummary, computeDailyUniqueMinutes, getContinueWatching } from '@/lib/learnerDashboard';
+
+const CHART_DAYS = 14;
+
+const chartConfig = {
+  minutes: {
+    label: 'Unique minutes',
+    color: 'hsl(221 83% 53%)'
+  }
+} satisfies ChartConfig;
+
+const formatTime = (timeInSeconds: number): string => {
+  const mins = Math.floor(timeInSeconds / 60);
+  const secs = Math.floor(timeInSeconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatDay = (day: string): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const Dashboard = () => {
+  const { videos, sessions, isLoading } = useLearnerDashboard();
+  const { manifest } = useCourseCatalog();
+
+  const dailyMinutes = useMemo(() => computeDailyUniqueMinutes(sessions, CHART_DAYS), [sessions]);
+  const continueWatching = getContinueWatching(videos);
+  const completedCount = videos.filter(video => video.isComplete).length;
+  const totalMinutes = dailyMinutes.reduce((total, day) => total + day.minutes, 0);
+
+  // Videos from the catalog get their lecture's title and a link into the player
+  const describe = (video: VideoSummary, startTime?: number) => {
+    const location = manifest ? findLectureByVideoId(manifest, video.videoId) : null;
+    return {
+      title: location?.lecture.title ?? video.videoId,
+      path: location ? getLecturePath(location.course.id, location.lecture.id, startTime) : null
+    };
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900 dark:to-blue-950">
+      <Navbar />
+      <div className="container py-6 space-y-8">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg">
+            <p className="text-sm text-muted-foreground">Videos started</p>
+            <p className="text-2xl font-semibold dark:text-white">{videos.length}</p>
+          </Card>
+          <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg">
+            <p className="text-sm text-muted-foreground">Videos completed</p>
+            <p className="text-2xl font-semibold dark:text-white">{completedCount}</p>
+          </Card>
+          <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg">
+            <p className="text-sm text-muted-foreground">Unique minutes, last {CHART_DAYS} days</p>
+            <p className="text-2xl font-semibold dark:text-white">{Math.round(totalMinutes)}</p>
+          </Card>
+        </div>
+
+        {continueWatching.length > 0 && (
+          <div>
+            <h2 className="text-lg font-semibold mb-4 dark:text-white">Continue Watching</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {continueWatching.map(video => {
+                const { title, path } = describe(video, video.lastPosition);
+                const content = (
+                  <Card className="p-4 bg-white dark:bg-slate-800 shadow-lg space-y-2 h-full">
+                    <p className="font-medium flex items-center gap-2 dark:text-white">
+                      <PlayCircle className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                      <span className="truncate">{title}</span>
+                    </p>
+                    <Progress value={video.progress} className="h-1" />
+                    <p className="text-xs text-muted-foreground">Resume at {formatTime(video.lastPosition)}</p>
+                  </Card>
+                );
+                return path
+                  ? <Link key={video.videoId} to={path} className="hover:opacity-90">{content}</Link>
+                  : <div key={video.videoId}>{content}</div>;
+              })}
+            </div>
+          </div>
+        )}
+
+        <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg">
+          <h2 className="text-lg font-semibold mb-1 dark:text-white">Unique Minutes Watched</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Only parts of a video you hadn't seen before count toward the day you watched them.
+          </p>
+          <ChartContainer config={chartConfig} className="h-[240px] w-full">
+            <BarChart data={dailyMinutes}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => formatDay(String(payload?.[0]?.payload?.date ?? ''))}
+                    formatter={value => `${Number(value).toFixed(1)} min`}
+                  />
+                }
+              />
+              <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </Card>
+
+        <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg">
+          <h2 className="text-lg font-semibold mb-4 dark:text-white">All Videos</h2>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading your progress...</p>
+          ) : videos.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You haven't watched anything yet. <Link to="/courses" className="text-blue-600 hover:underline dark:text-blue-400">Browse courses</Link>
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Video</TableHead>
+                  <TableHead className="w-[200px]">Progress</TableHead>
+                  <TableHead>Last Watched</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {videos.map(video => {
+                  const { title, path } = describe(video);
+                  return (
+                    <TableRow key={video.videoId}>
+                      <TableCell className="font-medium">
+                        {path ? <Link to={path} className="hover:underline">{title}</Link> : title}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={video.progress} className="h-1" />
+                          <span className="text-xs w-12 text-right">{video.progress.toFixed(1)}%</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{new Date(video.lastWatchedAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {video.isComplete ? (
+                          <Badge className="bg-green-600 hover:bg-green-600 text-white">Complete</Badge>
+                        ) : (
+                          <Badge variant="outline">In progress</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
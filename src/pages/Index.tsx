@@ -1,12 +1,24 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import VideoPlayer from '@/components/VideoPlayer';
 import { Progress } from '@/components/ui/progress';
 import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { useCmi5MoveOn, useCmi5Session } from '@/hooks/use-cmi5-session';
+import { useScormBridge } from '@/hooks/use-scorm-bridge';
+import { getCmi5ProgressId, parseCmi5LaunchParameters } from '@/lib/cmi5';
 
 const Index = () => {
   // Sample video URLs - using Big Buck Bunny sample video
   const lectureVideoUrl = "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4";
+  // Set when an LMS launched this page as a cmi5 assignable unit
+  const [cmi5Params] = useState(() => parseCmi5LaunchParameters(window.location.search));
+  const cmi5Session = useCmi5Session({ activityName: "Introduction to Smart Learning" });
+  const canMoveOn = useCmi5MoveOn(cmi5Session);
+  // Set when the page runs inside a SCORM package
+  const scormBridge = useScormBridge();
+  // Within a cmi5 launch only watching done in the registration counts toward completing it
+  const videoId = cmi5Params ? getCmi5ProgressId("intro-to-smart-learning", cmi5Params) : "intro-to-smart-learning";
   
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900 dark:to-blue-950">
@@ -22,9 +34,24 @@ const Index = () => {
           <div className="w-full">
             <VideoPlayer 
               videoUrl={lectureVideoUrl} 
+              videoId={videoId}
               title="Introduction to Smart Learning"
               description="This lecture covers the fundamentals of effective learning techniques."
+              cmi5Session={cmi5Session ?? undefined}
+              scormBridge={scormBridge ?? undefined}
             />
+            {cmi5Session?.launchData.returnURL && (
+              <div className="flex items-center justify-end gap-4 mt-4">
+                {canMoveOn && (
+                  <p className="text-sm text-slate-600 dark:text-slate-300">
+                    You've met this unit's requirements.
+                  </p>
+                )}
+                <Button variant={canMoveOn ? "default" : "outline"} onClick={() => cmi5Session.exit()}>
+                  Return to Course
+                </Button>
+              </div>
+            )}
           </div>
           
           <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg">
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import PlaylistPlayer from '@/components/PlaylistPlayer';
+import Navbar from '@/components/Navbar';
+import { useCourseCatalog } from '@/hooks/use-course-catalog';
+import { findLecture, getCourseLectures, getLecturePath } from '@/lib/courseCatalog';
+
+const Lecture = () => {
+  const { courseId = '', lectureId = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { manifest, error, isLoading } = useCourseCatalog();
+
+  // `?t=` deep-links to a position in seconds, e.g. from the dashboard
+  const startParam = Number(searchParams.get('t'));
+  const startTime = searchParams.has('t') && Number.isFinite(startParam) ? startParam : undefined;
+  const location = manifest ? findLecture(manifest, courseId, lectureId) : null;
+  // The course plays as a playlist, moving through lectures in course order
+  const lectures = location ? getCourseLectures(location.course) : [];
+  const playlist = lectures.map(lecture => ({
+    videoId: lecture.videoId,
+    videoUrl: lecture.url,
+    title: lecture.title,
+    description: lecture.description,
+    sourceType: lecture.sourceType,
+    chapters: lecture.chapters,
+    chaptersTrack: lecture.chaptersTrack,
+    startTime: lecture === location?.lecture ? startTime : undefined
+  }));
+
+  let message: string | null = null;
+  if (isLoading) {
+    message = 'Loading lecture...';
+  } else if (error) {
+    message = error;
+  } else if (!location) {
+    message = 'This lecture could not be found.';
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900 dark:to-blue-950">
+      <Navbar />
+      <div className="container py-6">
+        {message || !location ? (
+          <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg max-w-2xl mx-auto space-y-2">
+            <p className="text-slate-600 dark:text-slate-300">{message}</p>
+            <Link to="/courses" className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+              Back to courses
+            </Link>
+          </Card>
+        ) : (
+          <div className="w-full">
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+              <Link to="/courses" className="hover:underline">{location.course.title}</Link>
+              {' / '}
+              {location.module.title}
+            </p>
+            <PlaylistPlayer
+              items={playlist}
+              index={lectures.indexOf(location.lecture)}
+              onIndexChange={index => navigate(getLecturePath(location.course.id, lectures[index].id))}
+            />
+            <div className="flex justify-between mt-4">
+              {location.previous ? (
+                <Button variant="outline" asChild>
+                  <Link to={getLecturePath(location.course.id, location.previous.id)}>
+                    <ChevronLeft className="w-4 h-4" />
+                    {location.previous.title}
+                  </Link>
+                </Button>
+              ) : <span />}
+              {location.next && (
+                <Button variant="outline" asChild>
+                  <Link to={getLecturePath(location.course.id, location.next.id)}>
+                    {location.next.title}
+                    <ChevronRight className="w-4 h-4" />
+                  </Link>
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Lecture;
@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import VideoPlayer from '@/components/VideoPlayer';
+import Navbar from '@/components/Navbar';
+import { useLtiLaunch } from '@/hooks/use-lti-launch';
+import {
+  HttpLtiClient,
+  LtiClient,
+  LtiGradePassback,
+  isLtiInstructor,
+  resolveLtiVideo
+} from '@/lib/lti';
+
+interface LtiVideo {
+  videoId: string;
+  videoUrl: string;
+  title: string;
+  description: string;
+}
+
+// Videos a resource link can point at, by video ID
+const LTI_VIDEOS: Record<string, LtiVideo> = {
+  'intro-to-smart-learning': {
+    videoId: 'intro-to-smart-learning',
+    videoUrl: "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4",
+    title: "Introduction to Smart Learning",
+    description: "This lecture covers the fundamentals of effective learning techniques."
+  }
+};
+
+// Resource links created before platforms sent a `video_id` custom parameter
+const LTI_RESOURCE_LINKS: Record<string, string> = {
+  'resource-link-1': 'intro-to-smart-learning'
+};
+
+const defaultLtiClient = new HttpLtiClient({ baseUrl: '/api/lti' });
+
+/**
+ * Take the id_token the tool's backend forwarded in the URL fragment and
+ * remove it from the address bar and history. The query string is never
+ * read: it would put the token in server logs and Referer headers.
+ */
+function takeIdToken(): string | null {
+  const idToken = new URLSearchParams(window.location.hash.slice(1)).get('id_token');
+  if (idToken) {
+    window.history.replaceState(null, '', window.location.pathname);
+  }
+  return idToken;
+}
+
+interface LtiLaunchPageProps {
+  /** Validates launches and posts scores; defaults to the tool's backend */
+  client?: LtiClient;
+}
+
+const LtiLaunchPage: React.FC<LtiLaunchPageProps> = ({ client = defaultLtiClient }) => {
+  const [idToken] = useState(takeIdToken);
+  const { launch, error, isLoading } = useLtiLaunch(client, idToken);
+
+  const video = launch ? resolveLtiVideo(launch, LTI_VIDEOS, LTI_RESOURCE_LINKS) : null;
+
+  // Instructors previewing the video shouldn't get a grade
+  const gradePassback = useMemo(() => {
+    if (!launch || isLtiInstructor(launch)) return null;
+    return new LtiGradePassback(client, launch, {
+      mode: launch.custom.score_mode === 'completion' ? 'completion' : 'progress'
+    });
+  }, [client, launch]);
+
+  let message: string | null = null;
+  if (isLoading) {
+    message = 'Checking your launch...';
+  } else if (error) {
+    message = error;
+  } else if (launch && !video) {
+    message = 'This link does not point at a video. Ask your instructor to check the assignment.';
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900 dark:to-blue-950">
+      <Navbar />
+      <div className="container py-6">
+        {message || !launch || !video ? (
+          <Card className="p-6 bg-white dark:bg-slate-800 shadow-lg max-w-2xl mx-auto">
+            <p className="text-slate-600 dark:text-slate-300">{message}</p>
+          </Card>
+        ) : (
+          <div className="w-full">
+            {launch.context?.title && (
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{launch.context.title}</p>
+            )}
+            <VideoPlayer
+              videoUrl={video.videoUrl}
+              // Keep each platform user's progress apart when they share a browser
+              videoId={`${video.videoId}:${launch.issuer}:${launch.userId}`}
+              title={launch.resourceLink.title || video.title}
+              description={video.description}
+              gradePassback={gradePassback ?? undefined}
+            />
+            {gradePassback && !gradePassback.isAvailable() && (
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-4">
+                This assignment isn't graded, so your progress won't be sent to the gradebook.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LtiLaunchPage;